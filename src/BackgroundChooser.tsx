@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 
 // ================================================================================================
 // TYPES & CONSTANTS
@@ -8,13 +8,40 @@ type BGItem = {
   id: string;
   name: string;
   type: "image" | "css";
-  src?: string; // for image
+  src?: string; // for image; object URL at runtime when blobId is set
+  blobId?: string; // uploaded image bytes live in IndexedDB under this key
   css?: string; // for css
-  origin: "preset" | "upload";
+  origin: "preset" | "upload" | "custom";
   favorite?: boolean;
+  art?: Partial<Record<ArtTarget, ArtOverride>>; // per device class
+  focus?: { x: number; y: number }; // focal point, % of the image size
+};
+
+// Device classes art direction applies to, picked by the simulated width.
+type ArtTarget = "mobile" | "tablet" | "desktop";
+
+// Settings a background uses on one device class instead of the shared ones.
+// `itemId` swaps in another library background as the source.
+type ArtOverride = {
+  fit?: "cover" | "contain" | "auto";
+  pos?: string;
+  overlay?: number;
+  itemId?: string;
+};
+
+// Overlay and blur a compare side uses instead of the global settings.
+type CompareFx = { overlay: number; blur: number };
+
+type CompareView = {
+  a?: BGItem;
+  b?: BGItem;
+  split: number; // divider position, 0..1 of the frame width
+  fxA: CompareFx;
+  fxB: CompareFx;
 };
 
 type ExportState = {
+  version: number;
   items: BGItem[];
   index: number;
   fit: "cover" | "contain" | "auto";
@@ -25,18 +52,54 @@ type ExportState = {
   device: DeviceKey;
   rotate: boolean;
   cardOpacity: number;
-  darkMode: boolean; // For backwards compatibility
   cardColor: string;
   cardCount: number;
   generatedCards: Array<{ id: string; title: string; content: string }>;
   sidebarCollapsed: boolean;
+  looks: Look[];
+  customDevices: DeviceProfile[];
+};
+
+type SafeAreaInsets = {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+};
+
+// Sizes are CSS pixels in portrait (or the device's natural orientation).
+type DeviceProfile = {
+  key: string;
+  label: string;
+  w: number | "100%";
+  h: number | "100%";
+  dpr: number;
+  insets?: SafeAreaInsets;
+  group?: string;
+};
+
+// A named combination of background and settings that can be re-applied in
+// one click. The background is referenced by item id.
+type Look = {
+  id: string;
+  name: string;
+  itemId: string;
+  fit: ExportState["fit"];
+  pos: string;
+  repeat: boolean;
+  overlay: number;
+  blur: number;
+  cardColor: string;
+  cardOpacity: number;
+  device: DeviceKey;
+  rotate: boolean;
 };
 
 function uid() {
   return Math.random().toString(36).slice(2, 9);
 }
 
-function fileToDataURL(f: File): Promise<string> {
+function fileToDataURL(f: Blob): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = () => resolve(String(reader.result));
@@ -103,28 +166,277 @@ const POSITIONS = [
   { v: "right bottom", label: "bottom right" },
 ];
 
-const DEVICES = [
-  { key: "fluid", label: "Fluid 100%", w: "100%", h: "100%" },
-  { key: "mobile", label: "Mobile", w: 390, h: 844 },
-  { key: "tablet", label: "Tablet", w: 820, h: 1180 },
-  { key: "desktop", label: "Desktop", w: 1440, h: 900 },
-] as const;
+// Width ranges match the @media rules cssSnippet emits.
+const ART_TARGETS: Array<{
+  key: ArtTarget;
+  label: string;
+  max: number;
+  media: string;
+}> = [
+  { key: "mobile", label: "Mobile", max: 767, media: "(max-width: 767px)" },
+  {
+    key: "tablet",
+    label: "Tablet",
+    max: 1199,
+    media: "(min-width: 768px) and (max-width: 1199px)",
+  },
+  {
+    key: "desktop",
+    label: "Desktop",
+    max: Infinity,
+    media: "(min-width: 1200px)",
+  },
+];
+
+const DEVICES: DeviceProfile[] = [
+  { key: "fluid", label: "Fluid 100%", w: "100%", h: "100%", dpr: 1 },
+  {
+    key: "mobile",
+    label: "Mobile",
+    w: 390,
+    h: 844,
+    dpr: 3,
+    insets: { top: 47, right: 0, bottom: 34, left: 0 },
+  },
+  {
+    key: "tablet",
+    label: "Tablet",
+    w: 820,
+    h: 1180,
+    dpr: 2,
+    insets: { top: 24, right: 0, bottom: 20, left: 0 },
+  },
+  { key: "desktop", label: "Desktop", w: 1440, h: 900, dpr: 2 },
+];
+
+const NOTCH = { top: 59, right: 0, bottom: 34, left: 0 };
+const STATUS_BAR = { top: 24, right: 0, bottom: 0, left: 0 };
+const HOME_BAR = { top: 24, right: 0, bottom: 20, left: 0 };
+
+const DEVICE_CATALOGUE: DeviceProfile[] = [
+  {
+    key: "iphone-se",
+    label: "iPhone SE",
+    group: "Phones",
+    w: 375,
+    h: 667,
+    dpr: 2,
+    insets: { top: 20, right: 0, bottom: 0, left: 0 },
+  },
+  {
+    key: "iphone-15",
+    label: "iPhone 15",
+    group: "Phones",
+    w: 393,
+    h: 852,
+    dpr: 3,
+    insets: NOTCH,
+  },
+  {
+    key: "iphone-15-pro-max",
+    label: "iPhone 15 Pro Max",
+    group: "Phones",
+    w: 430,
+    h: 932,
+    dpr: 3,
+    insets: NOTCH,
+  },
+  {
+    key: "pixel-8",
+    label: "Pixel 8",
+    group: "Phones",
+    w: 412,
+    h: 915,
+    dpr: 2.625,
+    insets: STATUS_BAR,
+  },
+  {
+    key: "galaxy-s24",
+    label: "Galaxy S24",
+    group: "Phones",
+    w: 360,
+    h: 780,
+    dpr: 3,
+    insets: STATUS_BAR,
+  },
+  {
+    key: "ipad-mini",
+    label: "iPad mini",
+    group: "Tablets",
+    w: 744,
+    h: 1133,
+    dpr: 2,
+    insets: HOME_BAR,
+  },
+  {
+    key: "ipad-air-11",
+    label: 'iPad Air 11"',
+    group: "Tablets",
+    w: 820,
+    h: 1180,
+    dpr: 2,
+    insets: HOME_BAR,
+  },
+  {
+    key: "ipad-pro-13",
+    label: 'iPad Pro 13"',
+    group: "Tablets",
+    w: 1032,
+    h: 1376,
+    dpr: 2,
+    insets: HOME_BAR,
+  },
+  {
+    key: "galaxy-tab-s9",
+    label: "Galaxy Tab S9",
+    group: "Tablets",
+    w: 800,
+    h: 1280,
+    dpr: 2,
+    insets: STATUS_BAR,
+  },
+  {
+    key: "laptop-1366",
+    label: "Laptop HD",
+    group: "Laptops",
+    w: 1366,
+    h: 768,
+    dpr: 1,
+  },
+  {
+    key: "laptop-1536",
+    label: "Laptop FHD @125%",
+    group: "Laptops",
+    w: 1536,
+    h: 864,
+    dpr: 1.25,
+  },
+  {
+    key: "macbook-air-13",
+    label: 'MacBook Air 13"',
+    group: "Laptops",
+    w: 1470,
+    h: 956,
+    dpr: 2,
+  },
+  {
+    key: "macbook-pro-16",
+    label: 'MacBook Pro 16"',
+    group: "Laptops",
+    w: 1728,
+    h: 1117,
+    dpr: 2,
+  },
+  {
+    key: "desktop-fhd",
+    label: "Desktop FHD",
+    group: "Desktops",
+    w: 1920,
+    h: 1080,
+    dpr: 1,
+  },
+  {
+    key: "desktop-qhd",
+    label: "Desktop QHD",
+    group: "Desktops",
+    w: 2560,
+    h: 1440,
+    dpr: 1,
+  },
+  {
+    key: "desktop-4k",
+    label: "4K @150%",
+    group: "Desktops",
+    w: 2560,
+    h: 1440,
+    dpr: 1.5,
+  },
+  {
+    key: "ultrawide-2560",
+    label: "Ultrawide 21:9",
+    group: "Ultrawide",
+    w: 2560,
+    h: 1080,
+    dpr: 1,
+  },
+  {
+    key: "ultrawide-3440",
+    label: "Ultrawide WQHD",
+    group: "Ultrawide",
+    w: 3440,
+    h: 1440,
+    dpr: 1,
+  },
+  {
+    key: "ultrawide-5120",
+    label: "Super ultrawide 32:9",
+    group: "Ultrawide",
+    w: 5120,
+    h: 1440,
+    dpr: 1,
+  },
+];
+
+type DeviceKey = string;
+
+const LS_KEY = "mai-bg-chooser";
+const LEGACY_LS_KEYS = ["mai-bg-chooser-v1"];
+const SCHEMA_VERSION = 4;
+
+const IDB_NAME = "mai-bg-chooser";
+const IDB_STORE = "blobs";
+// Blobs a tab dropped from its library but kept for undo, keyed to that tab.
+const RELEASED_KEY = "mai-bg-chooser-released";
+const TAB_KEY = "mai-bg-chooser-tab";
+const STORAGE_WARN_RATIO = 0.8;
+
+const ZOOM_LEVELS = [25, 50, 75, 100, 125, 150, 200];
+
+const SWEEP_THUMB_HEIGHT = 150;
+const SWEEP_STEP_DELAY_MS = 120;
+const SWEEP_MIN_WIDTH = 200;
+const SWEEP_MIN_STEP = 8;
+const SWEEP_MAX_FRAMES = 100;
 
-type DeviceKey = "fluid" | "mobile" | "tablet" | "desktop";
+const MULTI_UP_MIN = 2;
+const MULTI_UP_MAX = 9;
+const MULTI_UP_GAP = 12;
 
-const LS_KEY = "mai-bg-chooser-v1";
+const URL_BAR_HEIGHT = 44;
+const KEYBOARD_ROWS = ["qwertyuiop", "asdfghjkl", "zxcvbnm"];
+const FOCUS_DEVICE_COLORS = ["#34d399", "#60a5fa", "#f472b6", "#fbbf24"];
+
+const CHROME_CLASSES: Record<ChromePart["kind"], string> = {
+  status:
+    "flex items-center justify-between px-7 text-sm font-semibold text-white bg-black/25",
+  island: "rounded-full bg-black",
+  home: "rounded-full bg-white/80",
+  url: "flex items-center justify-center text-sm text-neutral-700 bg-neutral-100/95 shadow",
+  keyboard: "bg-neutral-300/95",
+};
 
 // ================================================================================================
 // HELPER FUNCTIONS
 // ================================================================================================
 
+function allDevices(custom: DeviceProfile[] = []) {
+  return [...DEVICES, ...DEVICE_CATALOGUE, ...custom];
+}
+
+// Unknown keys (a deleted custom profile, a link from another browser) fall
+// back to the fluid canvas.
+function findDevice(key: DeviceKey, custom: DeviceProfile[] = []) {
+  return allDevices(custom).find((d) => d.key === key) ?? DEVICES[0];
+}
+
 function computeFrameStyle(
   device: DeviceKey,
   rotate: boolean,
+  custom: DeviceProfile[] = [],
 ): React.CSSProperties {
-  const dev = (DEVICES as any).find((d: any) => d.key === device)!;
-  let w: number | string = dev.w as any;
-  let h: number | string = dev.h as any;
+  const dev = findDevice(device, custom);
+  let w: number | string = dev.w;
+  let h: number | string = dev.h;
   if (rotate && typeof w === "number" && typeof h === "number") {
     const t = w;
     w = h;
@@ -136,6 +448,191 @@ function computeFrameStyle(
   };
 }
 
+// Device UI drawn over fixed-size frames, in frame CSS pixels.
+type ChromeOptions = { system: boolean; urlBar: boolean; keyboard: boolean };
+type ChromePart = {
+  kind: "status" | "island" | "home" | "url" | "keyboard";
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+};
+
+// Profiles store portrait insets. In landscape a notch (a top inset of 44px
+// or more) moves to both sides as on iOS; a plain status bar stays on top.
+function orientedInsets(profile: DeviceProfile, rotate: boolean) {
+  const base = profile.insets ?? { top: 0, right: 0, bottom: 0, left: 0 };
+  return rotate && base.top >= 44
+    ? { top: 0, right: base.top, bottom: base.bottom, left: base.top }
+    : { ...base };
+}
+
+// Chrome layers for a fixed-size device and the part of the frame they leave
+// visible. Returns null for the fluid canvas.
+function computeDeviceChrome(
+  profile: DeviceProfile,
+  rotate: boolean,
+  opts: ChromeOptions,
+) {
+  if (typeof profile.w !== "number" || typeof profile.h !== "number") {
+    return null;
+  }
+  const width = rotate ? profile.h : profile.w;
+  const height = rotate ? profile.w : profile.h;
+  const safe = orientedInsets(profile, rotate);
+  const notch = (profile.insets?.top ?? 0) >= 44;
+  const parts: ChromePart[] = [];
+  const visible: SafeAreaInsets = opts.system
+    ? { ...safe }
+    : { top: 0, right: 0, bottom: 0, left: 0 };
+  if (opts.system) {
+    if (safe.top) {
+      parts.push({ kind: "status", x: 0, y: 0, w: width, h: safe.top });
+    }
+    if (notch) {
+      parts.push(
+        rotate
+          ? { kind: "island", x: 11, y: height / 2 - 63, w: 37, h: 126 }
+          : { kind: "island", x: width / 2 - 63, y: 11, w: 126, h: 37 },
+      );
+    }
+    if (safe.bottom) {
+      parts.push({
+        kind: "home",
+        x: width / 2 - 67,
+        y: height - safe.bottom / 2 - 2.5,
+        w: 134,
+        h: 5,
+      });
+    }
+  }
+  if (opts.urlBar) {
+    parts.push({
+      kind: "url",
+      x: 0,
+      y: visible.top,
+      w: width,
+      h: URL_BAR_HEIGHT,
+    });
+    visible.top += URL_BAR_HEIGHT;
+  }
+  if (opts.keyboard) {
+    const h = Math.round(height * (width > height ? 0.5 : 0.36));
+    parts.push({ kind: "keyboard", x: 0, y: height - h, w: width, h });
+    visible.bottom = Math.max(visible.bottom, h);
+  }
+  return { width, height, safe, visible, parts };
+}
+
+// Key caps of an on-screen keyboard layer, shared by the preview and export.
+function keyboardKeys(p: ChromePart) {
+  const rowH = (p.h - 16) / 4;
+  const keyW = (p.w - 12) / 10;
+  const keys = KEYBOARD_ROWS.flatMap((row, r) =>
+    [...row].map((label, i) => ({
+      label,
+      x: p.x + (p.w - row.length * keyW) / 2 + i * keyW + 3,
+      y: p.y + 8 + r * rowH + 4,
+      w: keyW - 6,
+      h: rowH - 8,
+    })),
+  );
+  keys.push({
+    label: "",
+    x: p.x + p.w * 0.25,
+    y: p.y + 8 + 3 * rowH + 4,
+    w: p.w * 0.5,
+    h: rowH - 8,
+  });
+  return keys;
+}
+
+// Column count and tile scale that show n device frames of baseW × baseH as
+// large as possible in the available area.
+function multiUpLayout(
+  n: number,
+  areaW: number,
+  areaH: number,
+  baseW: number,
+  baseH: number,
+) {
+  let best = { cols: 1, rows: n, scale: 0 };
+  for (let cols = 1; cols <= n; cols++) {
+    const rows = Math.ceil(n / cols);
+    const cellW = (areaW - MULTI_UP_GAP * (cols - 1)) / cols;
+    const cellH = (areaH - MULTI_UP_GAP * (rows - 1)) / rows;
+    const scale = Math.min(cellW / baseW, cellH / baseH);
+    if (scale > best.scale) best = { cols, rows, scale };
+  }
+  return best;
+}
+
+function artTargetFor(width: number): ArtTarget {
+  return (ART_TARGETS.find((t) => width <= t.max) ?? ART_TARGETS[2]).key;
+}
+
+// The background and settings an item shows on one device class. A swapped
+// source is looked up in the library; its own overrides are not followed.
+function resolveArt(
+  item: BGItem | undefined,
+  target: ArtTarget,
+  base: { fit: "cover" | "contain" | "auto"; pos: string; overlay: number },
+  items: BGItem[],
+) {
+  const o = item?.art?.[target];
+  const source = o?.itemId ? items.find((x) => x.id === o.itemId) : undefined;
+  return {
+    item: source ?? item,
+    fit: o?.fit ?? base.fit,
+    pos: o?.pos ?? base.pos,
+    overlay: o?.overlay ?? base.overlay,
+  };
+}
+
+// Merges `patch` into the item's override for `target`; null removes it.
+// Fields set to undefined fall back to the shared settings again.
+function withArtOverride(
+  item: BGItem,
+  target: ArtTarget,
+  patch: ArtOverride | null,
+): BGItem {
+  const art = { ...item.art };
+  if (patch) {
+    const merged: ArtOverride = { ...art[target], ...patch };
+    for (const k of Object.keys(merged) as Array<keyof ArtOverride>) {
+      if (merged[k] === undefined) delete merged[k];
+    }
+    art[target] = merged;
+  } else {
+    delete art[target];
+  }
+  const next: BGItem = { ...item, art };
+  if (!Object.keys(art).length) delete next.art;
+  return next;
+}
+
+// Points swapped sources at `remap`'s replacement ids and drops the ones
+// whose background is no longer in `xs`, so no override dangles.
+function pruneArtSources(
+  xs: BGItem[],
+  remap = new Map<string, string>(),
+): BGItem[] {
+  const ids = new Set(xs.map((x) => x.id));
+  return xs.map((x) => {
+    let next = x;
+    for (const { key } of ART_TARGETS) {
+      const from = x.art?.[key]?.itemId;
+      if (!from) continue;
+      const to = remap.get(from) ?? from;
+      if (to === from && ids.has(to)) continue;
+      next = withArtOverride(next, key, {
+        itemId: ids.has(to) && to !== x.id ? to : undefined,
+      });
+    }
+    return next;
+  });
+}
+
 function normalizeItem(x: BGItem): BGItem {
   return { ...x, favorite: x.favorite ?? false };
 }
@@ -143,6 +640,13 @@ function normalizeItems(xs: BGItem[]): BGItem[] {
   return xs.filter(Boolean).map(normalizeItem);
 }
 
+// A focal point replaces the chosen position: as a CSS percentage position it
+// lines up that point of the image with the same point of the frame, so it
+// stays in view under `cover` at any aspect ratio.
+function itemPosition(item: BGItem | undefined, pos: string) {
+  return item?.focus ? `${item.focus.x}% ${item.focus.y}%` : pos;
+}
+
 function buildBackgroundStyle(
   item: BGItem | undefined,
   opts?: {
@@ -160,7 +664,7 @@ function buildBackgroundStyle(
     blur = 0,
   } = opts || {};
   const base: React.CSSProperties = {
-    backgroundPosition: pos,
+    backgroundPosition: itemPosition(item, pos),
     backgroundRepeat: repeat ? "repeat" : "no-repeat",
     backgroundSize: fit,
     filter: blur > 0 ? `blur(${blur}px)` : undefined,
@@ -174,17 +678,319 @@ function buildBackgroundStyle(
   return base;
 }
 
+// Art direction overrides become @media rules after the base rule; swapped
+// image sources are also offered as a <picture> for an <img> hero.
 function cssSnippet(
   item: BGItem | undefined,
   fit: "cover" | "contain" | "auto",
   repeat: boolean,
   pos: string,
   overlay: number,
+  items: BGItem[] = [],
 ) {
-  const bi = item?.type === "image" ? `url(${item.src})` : item?.css || "none";
-  return `/* Background */\n.selector {\n  background-image: ${bi};\n  background-size: ${fit};\n  background-repeat: ${repeat ? "repeat" : "no-repeat"};\n  background-position: ${pos};\n  position: relative;\n}\n/* Overlay */\n.selector::before {\n  content: ""; position: absolute; inset: 0;\n  background: rgba(0,0,0,${overlay.toFixed(
+  const image = (it?: BGItem) =>
+    it?.type === "image" ? `url(${it.src})` : it?.css || "none";
+  const bi = image(item);
+  const position = itemPosition(item, pos);
+  const media: string[] = [];
+  const sources: string[] = [];
+  for (const t of ART_TARGETS) {
+    const o = item?.art?.[t.key];
+    if (!o) continue;
+    const src = o.itemId ? items.find((x) => x.id === o.itemId) : undefined;
+    const at = itemPosition(src ?? item, o.pos ?? pos);
+    const rules = [
+      src ? `background-image: ${image(src)};` : "",
+      o.fit ? `background-size: ${o.fit};` : "",
+      at !== position ? `background-position: ${at};` : "",
+    ].filter(Boolean);
+    const lines: string[] = [];
+    if (rules.length) lines.push(`  .selector { ${rules.join(" ")} }`);
+    if (o.overlay !== undefined) {
+      lines.push(
+        `  .selector::before { background: rgba(0,0,0,${o.overlay.toFixed(2)}); }`,
+      );
+    }
+    if (lines.length) media.push(`@media ${t.media} {\n${lines.join("\n")}\n}`);
+    if (src?.type === "image" && item?.type === "image") {
+      sources.push(`  <source media="${t.media}" srcset="${src.src}">`);
+    }
+  }
+  const art = media.length ? `\n/* Art direction */\n${media.join("\n")}` : "";
+  const picture = sources.length
+    ? `\n/* As markup for an <img> hero:\n<picture>\n${sources.join("\n")}\n  <img src="${item!.src}" alt="">\n</picture>\n*/`
+    : "";
+  return `/* Background */\n.selector {\n  background-image: ${bi};\n  background-size: ${fit};\n  background-repeat: ${repeat ? "repeat" : "no-repeat"};\n  background-position: ${position};\n  position: relative;\n}\n/* Overlay */\n.selector::before {\n  content: ""; position: absolute; inset: 0;\n  background: rgba(0,0,0,${overlay.toFixed(
     2,
-  )});\n  pointer-events: none;\n}`;
+  )});\n  pointer-events: none;\n}${art}${picture}`;
+}
+
+// Code export: the selected background as production code for several
+// targets. `url` names asset files so uploads are referenced by path instead
+// of data URLs; `derivatives` lists the responsive files an upload has, one
+// entry per format with widths ascending, empty when only the original exists.
+type CodeTarget = "css" | "image-set" | "picture" | "tailwind" | "vars";
+
+const CODE_TARGETS: Array<{ key: CodeTarget; label: string }> = [
+  { key: "css", label: "CSS" },
+  { key: "image-set", label: "image-set()" },
+  { key: "picture", label: "<picture>" },
+  { key: "tailwind", label: "Tailwind" },
+  { key: "vars", label: "CSS variables" },
+];
+
+type DerivativeSet = { mime: string; ext: string; widths: number[] };
+
+type CodeExportOptions = {
+  item: BGItem | undefined;
+  fit: "cover" | "contain" | "auto";
+  repeat: boolean;
+  pos: string;
+  overlay: number;
+  items: BGItem[];
+  derivatives: (it: BGItem) => DerivativeSet[];
+  url: (it: BGItem, variant?: { width?: number; ext?: string }) => string;
+};
+
+const TAILWIND_POSITIONS: Record<string, string> = {
+  "center center": "bg-center",
+  "center top": "bg-top",
+  "center bottom": "bg-bottom",
+  "left center": "bg-left",
+  "right center": "bg-right",
+  "left top": "bg-left-top",
+  "right top": "bg-right-top",
+  "left bottom": "bg-left-bottom",
+  "right bottom": "bg-right-bottom",
+};
+
+const TAILWIND_VARIANTS: Record<ArtTarget, string> = {
+  mobile: "max-[767px]:",
+  tablet: "min-[768px]:max-[1199px]:",
+  desktop: "min-[1200px]:",
+};
+
+// An upload's asset file: its own name, or `name-640w.webp` for a derivative
+// as the Optimise zip names them.
+function assetFileName(it: BGItem, v: { width?: number; ext?: string } = {}) {
+  const [, base, own] = /^(.*?)(?:\.([a-z0-9]+))?$/i.exec(it.name)!;
+  const ext = v.ext ?? own ?? "jpg";
+  return encodeURI(v.width ? `${base}-${v.width}w.${ext}` : `${base}.${ext}`);
+}
+
+// The shared settings with the focal point applied, and per device class
+// with an art direction override only what differs from them.
+function codeVariants(o: CodeExportOptions) {
+  const resolve = (target?: ArtTarget) => {
+    const r = target
+      ? resolveArt(o.item, target, o, o.items)
+      : { item: o.item, fit: o.fit, pos: o.pos, overlay: o.overlay };
+    return { ...r, pos: itemPosition(r.item, r.pos) };
+  };
+  const base = resolve();
+  const media = ART_TARGETS.filter((t) => o.item?.art?.[t.key])
+    .map((t) => {
+      const r = resolve(t.key);
+      return {
+        key: t.key,
+        media: t.media,
+        item: r.item !== base.item ? r.item : undefined,
+        fit: r.fit !== base.fit ? r.fit : undefined,
+        pos: r.pos !== base.pos ? r.pos : undefined,
+        overlay: r.overlay !== base.overlay ? r.overlay : undefined,
+      };
+    })
+    .filter((v) => v.item || v.fit || v.pos || v.overlay !== undefined);
+  return { base, media };
+}
+
+function buildCodeExport(target: CodeTarget, o: CodeExportOptions) {
+  const { base, media } = codeVariants(o);
+  const it = base.item;
+  if (!it) return "";
+  const shade = (v: number) => `rgba(0,0,0,${v.toFixed(2)})`;
+  const plain = (x: BGItem) =>
+    x.type === "image" ? `url(${o.url(x)})` : x.css || "none";
+  const sets = (x: BGItem) => (x.type === "image" ? o.derivatives(x) : []);
+  const jpegOf = (x: BGItem) => sets(x).find((d) => d.mime === "image/jpeg");
+  const largest = (x: BGItem, d: DerivativeSet) =>
+    o.url(x, { width: d.widths[d.widths.length - 1], ext: d.ext });
+  // The largest file of each format, best first; the original closes the
+  // list as an untyped fallback when there's no JPEG to do it.
+  const imageSet = (x: BGItem) => {
+    const ds = sets(x);
+    if (!ds.length) return plain(x);
+    const entries = ds.map((d) => `url(${largest(x, d)}) type("${d.mime}")`);
+    if (!jpegOf(x)) entries.push(plain(x));
+    return `image-set(${entries.join(", ")})`;
+  };
+  const srcset = (x: BGItem, d: DerivativeSet) =>
+    d.widths
+      .map((w) => `${o.url(x, { width: w, ext: d.ext })} ${w}w`)
+      .join(", ");
+  const repeat = o.repeat ? "repeat" : "no-repeat";
+  const overlayRule = `.selector::before {\n  content: "";\n  position: absolute;\n  inset: 0;\n  background: ${target === "vars" ? "var(--bg-overlay)" : shade(base.overlay)};\n  pointer-events: none;\n}`;
+
+  if (target === "css" || target === "image-set") {
+    const image = target === "css" ? plain : imageSet;
+    const jpeg = jpegOf(it);
+    const fallback =
+      target === "image-set" && sets(it).length
+        ? `\n  background-image: ${jpeg ? `url(${largest(it, jpeg)})` : plain(it)};`
+        : "";
+    let out = `.selector {\n  position: relative;${fallback}\n  background-image: ${image(it)};\n  background-size: ${base.fit};\n  background-position: ${base.pos};\n  background-repeat: ${repeat};\n}\n${overlayRule}`;
+    for (const v of media) {
+      const rules = [
+        v.item ? `background-image: ${image(v.item)};` : "",
+        v.fit ? `background-size: ${v.fit};` : "",
+        v.pos ? `background-position: ${v.pos};` : "",
+      ].filter(Boolean);
+      out += `\n@media ${v.media} {`;
+      if (rules.length) out += `\n  .selector { ${rules.join(" ")} }`;
+      if (v.overlay !== undefined) {
+        out += `\n  .selector::before { background: ${shade(v.overlay)}; }`;
+      }
+      out += "\n}";
+    }
+    return out;
+  }
+
+  if (target === "vars") {
+    const vars = (v: {
+      item?: BGItem;
+      fit?: string;
+      pos?: string;
+      overlay?: number;
+    }) =>
+      [
+        v.item ? `--bg-image: ${plain(v.item)};` : "",
+        v.fit ? `--bg-size: ${v.fit};` : "",
+        v.pos ? `--bg-position: ${v.pos};` : "",
+        v.overlay !== undefined ? `--bg-overlay: ${shade(v.overlay)};` : "",
+      ].filter(Boolean);
+    let out = `.selector {\n  ${vars(base).join("\n  ")}\n  --bg-repeat: ${repeat};\n  position: relative;\n  background-image: var(--bg-image);\n  background-size: var(--bg-size);\n  background-position: var(--bg-position);\n  background-repeat: var(--bg-repeat);\n}\n${overlayRule}`;
+    for (const v of media) {
+      out += `\n@media ${v.media} {\n  .selector {\n    ${vars(v).join("\n    ")}\n  }\n}`;
+    }
+    return out;
+  }
+
+  if (target === "picture") {
+    if (it.type !== "image") {
+      return `<!-- ${it.name} is a CSS background: use the CSS target -->`;
+    }
+    const sources: string[] = [];
+    for (const v of media) {
+      if (v.item?.type !== "image") continue;
+      const ds = sets(v.item);
+      if (!ds.length) {
+        sources.push(
+          `    <source media="${v.media}" srcset="${o.url(v.item)}">`,
+        );
+      }
+      for (const d of ds) {
+        sources.push(
+          `    <source media="${v.media}" type="${d.mime}" srcset="${srcset(v.item, d)}" sizes="100vw">`,
+        );
+      }
+    }
+    // JPEG derivatives go on the <img> itself; other formats need a source.
+    const jpeg = jpegOf(it);
+    for (const d of sets(it)) {
+      if (d === jpeg) continue;
+      sources.push(
+        `    <source type="${d.mime}" srcset="${srcset(it, d)}" sizes="100vw">`,
+      );
+    }
+    const lost = media.some((v) => v.fit || v.pos || v.overlay !== undefined);
+    return [
+      ...(lost
+        ? ["<!-- Per-device fit, position and overlay need the CSS target -->"]
+        : []),
+      `<div style="position: relative; overflow: hidden">`,
+      `  <picture>`,
+      ...sources,
+      `    <img src="${jpeg ? largest(it, jpeg) : o.url(it)}"${jpeg ? ` srcset="${srcset(it, jpeg)}" sizes="100vw"` : ""} alt=""`,
+      `      style="position: absolute; inset: 0; width: 100%; height: 100%; object-fit: ${base.fit === "auto" ? "none" : base.fit}; object-position: ${base.pos}">`,
+      `  </picture>`,
+      `  <div style="position: absolute; inset: 0; background: ${shade(base.overlay)}"></div>`,
+      `  <div style="position: relative">`,
+      `    <!-- page content -->`,
+      `  </div>`,
+      `</div>`,
+    ].join("\n");
+  }
+
+  // Tailwind: arbitrary variants match the art direction ranges exactly.
+  const name =
+    it.name
+      .replace(/\.[a-z0-9]+$/i, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "hero";
+  const position = (p: string) =>
+    TAILWIND_POSITIONS[p] ?? `bg-[position:${p.replace(/ /g, "_")}]`;
+  const images: Array<[string, string]> = [[name, plain(it)]];
+  const classes = [
+    "relative",
+    `bg-${name}`,
+    `bg-${base.fit}`,
+    position(base.pos),
+    `bg-${repeat}`,
+  ];
+  const shadeClasses = [
+    "absolute",
+    "inset-0",
+    `bg-black/[${base.overlay.toFixed(2)}]`,
+  ];
+  for (const v of media) {
+    const at = TAILWIND_VARIANTS[v.key];
+    if (v.item) {
+      images.push([`${name}-${v.key}`, plain(v.item)]);
+      classes.push(`${at}bg-${name}-${v.key}`);
+    }
+    if (v.fit) classes.push(`${at}bg-${v.fit}`);
+    if (v.pos) classes.push(`${at}${position(v.pos)}`);
+    if (v.overlay !== undefined) {
+      shadeClasses.push(`${at}bg-black/[${v.overlay.toFixed(2)}]`);
+    }
+  }
+  return [
+    `<div class="${classes.join(" ")}">`,
+    `  <div class="${shadeClasses.join(" ")}"></div>`,
+    `  <div class="relative"><!-- page content --></div>`,
+    `</div>`,
+    ``,
+    `// tailwind.config.js`,
+    `module.exports = {`,
+    `  theme: {`,
+    `    extend: {`,
+    `      backgroundImage: {`,
+    ...images.map(([k, v]) => `        "${k}": ${JSON.stringify(v)},`),
+    `      },`,
+    `    },`,
+    `  },`,
+    `};`,
+  ].join("\n");
+}
+
+// Standalone page for the code dialog's preview frame. Tailwind classes need
+// a build step, so that target previews through the equivalent CSS.
+function codePreviewDoc(target: CodeTarget, o: CodeExportOptions) {
+  const heading =
+    '<h1 style="position: relative; margin: 0; padding: 24px; font: 700 32px system-ui, sans-serif; color: white">Museum of Artificial Intelligence</h1>';
+  const page = "html, body { margin: 0; height: 100%; background: black; }";
+  if (target === "picture" && o.item?.type === "image") {
+    return `<style>${page} body > div { height: 100%; }</style>${buildCodeExport(
+      "picture",
+      o,
+    ).replace("<!-- page content -->", heading)}`;
+  }
+  const css = buildCodeExport(
+    target === "tailwind" || target === "picture" ? "css" : target,
+    o,
+  );
+  return `<style>${page} .selector { height: 100%; }\n${css}</style><div class="selector">${heading}</div>`;
 }
 
 function downloadBlob(filename: string, content: string) {
@@ -197,6 +1003,232 @@ function downloadBlob(filename: string, content: string) {
   URL.revokeObjectURL(url);
 }
 
+function openBlobStore(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB unavailable"));
+      return;
+    }
+    const req = indexedDB.open(IDB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(IDB_STORE);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error || new Error("IndexedDB open failed"));
+  });
+}
+
+async function blobStoreRequest<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openBlobStore();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(IDB_STORE, mode);
+    const req = run(tx.objectStore(IDB_STORE));
+    tx.oncomplete = () => {
+      db.close();
+      resolve(req.result);
+    };
+    tx.onerror = tx.onabort = () => {
+      db.close();
+      reject(tx.error || new Error("IndexedDB request failed"));
+    };
+  });
+}
+
+function putBlob(id: string, blob: Blob) {
+  return blobStoreRequest("readwrite", (s) => s.put(blob, id)).then(() => {});
+}
+
+function getBlob(id: string) {
+  return blobStoreRequest<Blob | undefined>("readonly", (s) => s.get(id));
+}
+
+function deleteBlob(id: string) {
+  return blobStoreRequest("readwrite", (s) => s.delete(id)).then(() => {});
+}
+
+// sessionStorage survives a reload but not the tab, so a tab can tell its own
+// released blobs from those of other open tabs.
+function currentTabId() {
+  try {
+    const id = sessionStorage.getItem(TAB_KEY) || uid();
+    sessionStorage.setItem(TAB_KEY, id);
+    return id;
+  } catch {
+    return "";
+  }
+}
+
+function readReleasedBlobs(): Record<string, string> {
+  try {
+    const map = JSON.parse(localStorage.getItem(RELEASED_KEY) || "{}");
+    return map && typeof map === "object" ? map : {};
+  } catch {
+    return {};
+  }
+}
+
+// Records `ids` as this tab's released blobs, replacing its previous set.
+function writeReleasedBlobs(tab: string, ids: Iterable<string>) {
+  const map = Object.fromEntries(
+    Object.entries(readReleasedBlobs()).filter(([, t]) => t !== tab),
+  );
+  for (const id of ids) map[id] = tab;
+  try {
+    if (Object.keys(map).length) {
+      localStorage.setItem(RELEASED_KEY, JSON.stringify(map));
+    } else localStorage.removeItem(RELEASED_KEY);
+  } catch {}
+}
+
+// What goes into localStorage: blob-backed items keep only their blobId, the
+// object URL is recreated from IndexedDB on load.
+function toStoredItems(xs: BGItem[]): BGItem[] {
+  return normalizeItems(xs).map((x) =>
+    x.blobId ? { ...x, src: undefined } : x,
+  );
+}
+
+// What goes into an exported file: blobs are inlined as data URLs so the
+// JSON still works in another browser.
+async function inlineItemBlobs(xs: BGItem[]): Promise<BGItem[]> {
+  const out: BGItem[] = [];
+  for (const x of normalizeItems(xs)) {
+    if (!x.blobId) {
+      out.push(x);
+      continue;
+    }
+    const { blobId, ...rest } = x;
+    try {
+      const blob = await getBlob(blobId);
+      out.push(blob ? { ...rest, src: await fileToDataURL(blob) } : rest);
+    } catch {
+      out.push(rest);
+    }
+  }
+  return out;
+}
+
+function cssKey(css: string) {
+  return css.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+async function digestHex(buf: ArrayBuffer) {
+  if (typeof crypto !== "undefined" && crypto.subtle) {
+    const d = await crypto.subtle.digest("SHA-1", buf);
+    return Array.from(new Uint8Array(d), (b) =>
+      b.toString(16).padStart(2, "0"),
+    ).join("");
+  }
+  // FNV-1a fallback for insecure contexts without SubtleCrypto.
+  let h = 0x811c9dc5;
+  for (const b of new Uint8Array(buf)) h = Math.imul(h ^ b, 0x01000193) >>> 0;
+  return h.toString(16);
+}
+
+// Identity of what an item shows, independent of its id: the normalised CSS
+// for gradients, a hash of the bytes for images.
+async function itemContentKey(x: BGItem): Promise<string> {
+  if (x.type === "css") return `css:${cssKey(x.css || "")}`;
+  try {
+    const blob = x.blobId
+      ? await getBlob(x.blobId)
+      : x.src
+        ? await (await fetch(x.src)).blob()
+        : undefined;
+    if (blob)
+      return `img:${blob.size}:${await digestHex(await blob.arrayBuffer())}`;
+  } catch {}
+  return `img:${x.blobId ?? x.src ?? x.id}`;
+}
+
+function formatBytes(n: number) {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`;
+  if (n < 1024 * 1024 * 1024) return `${(n / 1024 / 1024).toFixed(1)} MB`;
+  return `${(n / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
+
+// Image optimisation report: what an uploaded file is and how it serves each
+// simulated device under `cover`.
+type ImageMeta = { width: number; height: number; bytes: number; mime: string };
+
+// Metadata belongs to the file rather than the library entry, so an item
+// whose image is swapped gets read again.
+function imageMetaKey(item: BGItem): string {
+  return item.blobId ?? item.src ?? item.id;
+}
+
+const IMAGE_OVERSIZE_RATIO = 2;
+
+async function readImageMeta(item: BGItem): Promise<ImageMeta | null> {
+  try {
+    const blob = item.blobId
+      ? await getBlob(item.blobId)
+      : item.src
+        ? await (await fetch(item.src)).blob()
+        : undefined;
+    if (!blob || !item.src) return null;
+    const img = await loadImage(item.src);
+    return {
+      width: img.naturalWidth,
+      height: img.naturalHeight,
+      bytes: blob.size,
+      mime: blob.type || "unknown",
+    };
+  } catch {
+    return null;
+  }
+}
+
+// `scale` is how much the image is resized to cover the device's physical
+// pixels (above 1 means upscaled). `bytes` estimates a right-sized copy by
+// assuming bytes per pixel stay the same; the original is never exceeded.
+function imageFitReport(meta: ImageMeta, devices: DeviceProfile[]) {
+  const perDevice = devices
+    .filter(
+      (d): d is DeviceProfile & { w: number; h: number } =>
+        typeof d.w === "number" && typeof d.h === "number",
+    )
+    .map((d) => {
+      const w = Math.round(d.w * d.dpr);
+      const h = Math.round(d.h * d.dpr);
+      const scale = Math.max(w / meta.width, h / meta.height);
+      return {
+        key: d.key,
+        label: d.label,
+        need: { w, h },
+        scale,
+        bytes: Math.round(meta.bytes * Math.min(1, scale * scale)),
+      };
+    });
+  const largest = Math.max(0, ...perDevice.map((d) => d.scale));
+  const verdict: "too small" | "oversized" | "ok" =
+    largest > 1
+      ? "too small"
+      : largest > 0 && largest * IMAGE_OVERSIZE_RATIO < 1
+        ? "oversized"
+        : "ok";
+  return {
+    decoded: meta.width * meta.height * 4,
+    perDevice,
+    largest,
+    verdict,
+  };
+}
+
+// Uploads that share a file name apart from the extension, such as a PNG and
+// its AVIF export, grouped for a side-by-side size comparison.
+function imageVariantGroups(items: BGItem[]) {
+  const groups = new Map<string, BGItem[]>();
+  for (const it of items) {
+    if (it.type !== "image") continue;
+    const base = it.name.replace(/\.[a-z0-9]+$/i, "").toLowerCase();
+    groups.set(base, [...(groups.get(base) ?? []), it]);
+  }
+  return [...groups.values()].filter((g) => g.length > 1);
+}
+
 function estimateMinContrastFromOverlay(overlay: number) {
   const Lbg = 1 - overlay;
   const Ltext = 1; // white text
@@ -232,7 +1264,7 @@ function chooseTextColorForCard(
 
   const ratioWhite = (1 + 0.05) / (L_card + 0.05);
   const ratioBlack = (L_card + 0.05) / 0.05;
-  const color = ratioWhite >= ratioBlack ? "white" : "black";
+  const color: "white" | "black" = ratioWhite >= ratioBlack ? "white" : "black";
   const ratio = Math.max(ratioWhite, ratioBlack);
   const passAA = ratio >= 4.5;
   const passAAA = ratio >= 7.0;
@@ -247,11 +1279,12 @@ function estimateCardContrast(
   return chooseTextColorForCard(overlay, cardOpacity, cardColor);
 }
 
-async function exportBackgroundPNG(opts: {
+// Paints the device canvas offscreen: background (or A/B split), overlay,
+// optional heatmap and, when a content root is given, the page content on top,
+// followed by any device chrome layers.
+async function renderFrameCanvas(opts: {
   item?: BGItem;
-  compareA?: BGItem | null;
-  compareB?: BGItem | null;
-  showB: boolean;
+  compare?: CompareView | null;
   fit: "cover" | "contain" | "auto";
   repeat: boolean;
   pos: string;
@@ -259,12 +1292,15 @@ async function exportBackgroundPNG(opts: {
   blur: number;
   width: number;
   height: number;
+  pixelRatio?: number;
+  heatmap?: string | null;
+  frame?: HTMLElement | null;
+  content?: HTMLElement | null;
+  chrome?: ChromePart[];
 }) {
   const {
     item,
-    compareA,
-    compareB,
-    showB,
+    compare,
     fit,
     repeat,
     pos,
@@ -272,68 +1308,134 @@ async function exportBackgroundPNG(opts: {
     blur,
     width,
     height,
+    pixelRatio = 1,
+    heatmap,
+    frame,
+    content,
+    chrome,
   } = opts;
   const canvas = document.createElement("canvas");
-  canvas.width = width;
-  canvas.height = height;
+  canvas.width = Math.round(width * pixelRatio);
+  canvas.height = Math.round(height * pixelRatio);
   const ctx = canvas.getContext("2d")!;
+  ctx.scale(pixelRatio, pixelRatio);
   ctx.fillStyle = "black";
   ctx.fillRect(0, 0, width, height);
 
-  const drawItem = async (it?: BGItem) => {
-    if (!it) return;
-    if (it.type === "image" && it.src) {
-      await drawImageBackground(
-        ctx,
-        it.src,
-        fit,
-        pos,
-        repeat,
-        blur,
-        canvas.width,
-        canvas.height,
-      );
-    } else if (it.type === "css" && it.css) {
-      drawGradientBackground(ctx, it.css, canvas.width, canvas.height);
-    }
-  };
-
-  const drawCompare = async () => {
+  const drawSide = async (
+    it: BGItem | undefined,
+    fx: CompareFx,
+    x0: number,
+    x1: number,
+  ) => {
     ctx.save();
-    ctx.rect(0, 0, width / 2, height);
+    ctx.beginPath();
+    ctx.rect(x0, 0, x1 - x0, height);
     ctx.clip();
-    await drawItem(compareA ?? item);
-    ctx.restore();
-    ctx.save();
-    ctx.rect(width / 2, 0, width / 2, height);
-    ctx.clip();
-    await drawItem(compareB ?? item);
+    await drawBackgroundItem(
+      ctx,
+      it,
+      { fit, repeat, pos, blur: fx.blur },
+      width,
+      height,
+    );
+    ctx.globalAlpha = fx.overlay;
+    ctx.fillStyle = "black";
+    ctx.fillRect(0, 0, width, height);
     ctx.restore();
   };
 
-  const a = compareA ?? item;
-  const b = showB ? (compareB ?? item) : a;
-
-  if (slotA != null || slotB != null) {
-    ctx.save();
-    ctx.rect(0, 0, width * (showB ? 1 : 0.5), height);
-    ctx.clip();
-    await drawItem(a);
-    ctx.restore();
-    ctx.save();
-    ctx.rect(width * (showB ? 0.5 : 1), 0, width, height);
-    ctx.clip();
-    await drawItem(b);
-    ctx.restore();
+  if (compare) {
+    const x = width * compare.split;
+    await drawSide(compare.a ?? item, compare.fxA, 0, x);
+    await drawSide(compare.b ?? item, compare.fxB, x, width);
   } else {
-    await drawItem(item);
+    await drawSide(item, { overlay, blur }, 0, width);
+  }
+
+  if (heatmap) {
+    try {
+      ctx.drawImage(await loadImage(heatmap), 0, 0, width, height);
+    } catch {}
+  }
+  if (frame && content) {
+    rasterizeFrameContent(ctx, frame, content, pixelRatio);
   }
+  if (chrome) drawDeviceChrome(ctx, chrome);
+  return canvas;
+}
 
+// Canvas twin of the chrome layers drawn over the device frame.
+function drawDeviceChrome(ctx: CanvasRenderingContext2D, parts: ChromePart[]) {
+  const pill = (x: number, y: number, w: number, h: number, r: number) => {
+    ctx.beginPath();
+    ctx.roundRect(x, y, w, h, r);
+    ctx.fill();
+  };
   ctx.save();
-  ctx.globalAlpha = overlay;
-  ctx.fillStyle = "black";
-  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.textBaseline = "middle";
+  for (const p of parts) {
+    if (p.kind === "status") {
+      ctx.fillStyle = "rgba(0,0,0,0.25)";
+      ctx.fillRect(p.x, p.y, p.w, p.h);
+      ctx.fillStyle = "white";
+      ctx.font = "600 14px system-ui, sans-serif";
+      ctx.textAlign = "left";
+      ctx.fillText("9:41", p.x + 28, p.y + p.h / 2);
+      ctx.strokeStyle = "rgba(255,255,255,0.8)";
+      ctx.strokeRect(p.x + p.w - 52, p.y + p.h / 2 - 6, 24, 12);
+    } else if (p.kind === "island") {
+      ctx.fillStyle = "black";
+      pill(p.x, p.y, p.w, p.h, Math.min(p.w, p.h) / 2);
+    } else if (p.kind === "home") {
+      ctx.fillStyle = "rgba(255,255,255,0.8)";
+      pill(p.x, p.y, p.w, p.h, p.h / 2);
+    } else if (p.kind === "url") {
+      ctx.fillStyle = "rgba(245,245,245,0.95)";
+      ctx.fillRect(p.x, p.y, p.w, p.h);
+      ctx.fillStyle = "rgba(0,0,0,0.1)";
+      pill(p.x + p.w / 2 - 80, p.y + 8, 160, p.h - 16, (p.h - 16) / 2);
+      ctx.fillStyle = "#404040";
+      ctx.font = "14px system-ui, sans-serif";
+      ctx.textAlign = "center";
+      ctx.fillText("museum.example", p.x + p.w / 2, p.y + p.h / 2);
+    } else {
+      ctx.fillStyle = "rgba(212,212,212,0.95)";
+      ctx.fillRect(p.x, p.y, p.w, p.h);
+      ctx.font = "14px system-ui, sans-serif";
+      ctx.textAlign = "center";
+      for (const k of keyboardKeys(p)) {
+        ctx.fillStyle = "white";
+        pill(k.x, k.y, k.w, k.h, 4);
+        ctx.fillStyle = "#262626";
+        ctx.fillText(k.label, k.x + k.w / 2, k.y + k.h / 2);
+      }
+    }
+  }
   ctx.restore();
+}
+
+// Labels of measured regions that reach outside the chrome's visible area.
+function regionsUnderChrome(
+  regions: ContrastRegion[],
+  chrome: { width: number; height: number; visible: SafeAreaInsets },
+) {
+  const { width, height, visible: v } = chrome;
+  return regions
+    .filter(
+      ({ rect: r }) =>
+        r.y < v.top ||
+        r.x < v.left ||
+        r.x + r.w > width - v.right ||
+        r.y + r.h > height - v.bottom,
+    )
+    .map((r) => r.label);
+}
+
+async function exportBackgroundPNG(
+  opts: Parameters<typeof renderFrameCanvas>[0],
+) {
+  const canvas = await renderFrameCanvas(opts);
   return new Promise<string>((resolve) => {
     canvas.toBlob((blob) => {
       const url = URL.createObjectURL(blob!);
@@ -342,6 +1444,506 @@ async function exportBackgroundPNG(opts: {
   });
 }
 
+// Contact sheets: frames rendered through renderFrameCanvas at tile size,
+// each with a caption, laid out on one canvas (PNG) or one canvas per page
+// (PDF).
+type SheetTile = {
+  canvas: HTMLCanvasElement;
+  title: string;
+  lines: string[];
+  pass: boolean | null;
+};
+
+const SHEET_TILE_WIDTH = 480;
+const SHEET_CAPTION_HEIGHT = 64;
+const SHEET_PAD = 24;
+const SHEET_HEADER_HEIGHT = 56;
+const SHEET_TILES_PER_PAGE = 6;
+
+function renderContactSheet(tiles: SheetTile[], heading: string) {
+  const cols = tiles.length <= 2 ? tiles.length : tiles.length <= 4 ? 2 : 3;
+  const rows = Math.ceil(tiles.length / cols);
+  const tw = tiles[0]?.canvas.width ?? SHEET_TILE_WIDTH;
+  const th = tiles[0]?.canvas.height ?? 0;
+  const canvas = document.createElement("canvas");
+  canvas.width = SHEET_PAD + cols * (tw + SHEET_PAD);
+  canvas.height =
+    SHEET_HEADER_HEIGHT + rows * (th + SHEET_CAPTION_HEIGHT + SHEET_PAD);
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = "#111111";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = "#ffffff";
+  ctx.font = "600 22px system-ui, sans-serif";
+  ctx.textBaseline = "middle";
+  ctx.fillText(heading, SHEET_PAD, SHEET_HEADER_HEIGHT / 2 + 4);
+
+  tiles.forEach((t, i) => {
+    const x = SHEET_PAD + (i % cols) * (tw + SHEET_PAD);
+    const y =
+      SHEET_HEADER_HEIGHT +
+      Math.floor(i / cols) * (th + SHEET_CAPTION_HEIGHT + SHEET_PAD);
+    ctx.drawImage(t.canvas, x, y);
+    ctx.fillStyle = "#1c1c1c";
+    ctx.fillRect(x, y + th, tw, SHEET_CAPTION_HEIGHT);
+    ctx.textBaseline = "top";
+    ctx.fillStyle = "#ffffff";
+    ctx.font = "600 15px system-ui, sans-serif";
+    ctx.fillText(t.title, x + 10, y + th + 9, tw - 80);
+    ctx.fillStyle = "rgba(255,255,255,0.7)";
+    ctx.font = "12px ui-monospace, monospace";
+    t.lines.forEach((line, j) =>
+      ctx.fillText(line, x + 10, y + th + 30 + j * 15, tw - 20),
+    );
+    if (t.pass !== null) {
+      ctx.fillStyle = t.pass ? "#4ade80" : "#f87171";
+      ctx.font = "600 12px system-ui, sans-serif";
+      ctx.textAlign = "right";
+      ctx.fillText(t.pass ? "AA pass" : "AA fail", x + tw - 10, y + th + 10);
+      ctx.textAlign = "left";
+    }
+  });
+  return canvas;
+}
+
+// Responsive derivatives: an upload resized to chosen widths and re-encoded
+// with the browser's canvas encoders, downloaded together as a zip.
+const ENCODE_FORMATS = [
+  { mime: "image/avif", label: "AVIF", ext: "avif" },
+  { mime: "image/webp", label: "WebP", ext: "webp" },
+  { mime: "image/jpeg", label: "JPEG", ext: "jpg" },
+];
+
+function encodeFormat(mime: string) {
+  return (
+    ENCODE_FORMATS.find((f) => f.mime === mime) ?? {
+      mime,
+      label: mime,
+      ext: "img",
+    }
+  );
+}
+
+type Derivative = {
+  width: number;
+  height: number;
+  mime: string;
+  blob: Blob;
+  url: string;
+};
+
+// "640, 1280 1920" → [640, 1280, 1920], dropping widths above `max` so an
+// image is never upscaled.
+function parseWidths(input: string, max = Infinity) {
+  return [
+    ...new Set(
+      (input.match(/\d+/g) ?? [])
+        .map(Number)
+        .filter((w) => w >= 16 && w <= max),
+    ),
+  ].sort((a, b) => a - b);
+}
+
+async function encodeDerivative(
+  img: HTMLImageElement,
+  width: number,
+  mime: string,
+  quality: number,
+): Promise<Derivative> {
+  const height = Math.round((img.naturalHeight * width) / img.naturalWidth);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d")!;
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(img, 0, 0, width, height);
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, mime, quality),
+  );
+  // Browsers without an encoder for the type silently return a PNG.
+  if (!blob || blob.type !== mime) {
+    throw new Error(`This browser can't encode ${mime}`);
+  }
+  return { width, height, mime, blob, url: URL.createObjectURL(blob) };
+}
+
+let crcTable: Uint32Array | null = null;
+function crc32(bytes: Uint8Array) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const b of bytes) crc = crcTable[(crc ^ b) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Minimal zip writer: stored entries only (the images are already
+// compressed), UTF-8 names, every file dated 1980-01-01.
+function buildZip(files: Array<{ name: string; data: Uint8Array }>) {
+  const enc = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+  const record = (size: number) => {
+    const bytes = new Uint8Array(size);
+    return { bytes, view: new DataView(bytes.buffer) };
+  };
+  for (const f of files) {
+    const name = enc.encode(f.name);
+    const crc = crc32(f.data);
+    const local = record(30 + name.length);
+    local.view.setUint32(0, 0x04034b50, true);
+    local.view.setUint16(4, 20, true);
+    local.view.setUint16(6, 0x0800, true);
+    local.view.setUint16(12, 0x21, true);
+    local.view.setUint32(14, crc, true);
+    local.view.setUint32(18, f.data.length, true);
+    local.view.setUint32(22, f.data.length, true);
+    local.view.setUint16(26, name.length, true);
+    local.bytes.set(name, 30);
+    const entry = record(46 + name.length);
+    entry.view.setUint32(0, 0x02014b50, true);
+    entry.view.setUint16(4, 20, true);
+    entry.view.setUint16(6, 20, true);
+    entry.view.setUint16(8, 0x0800, true);
+    entry.view.setUint16(14, 0x21, true);
+    entry.view.setUint32(16, crc, true);
+    entry.view.setUint32(20, f.data.length, true);
+    entry.view.setUint32(24, f.data.length, true);
+    entry.view.setUint16(28, name.length, true);
+    entry.view.setUint32(42, offset, true);
+    entry.bytes.set(name, 46);
+    chunks.push(local.bytes, f.data);
+    central.push(entry.bytes);
+    offset += local.bytes.length + f.data.length;
+  }
+  const end = record(22);
+  end.view.setUint32(0, 0x06054b50, true);
+  end.view.setUint16(8, files.length, true);
+  end.view.setUint16(10, files.length, true);
+  end.view.setUint32(
+    12,
+    central.reduce((n, c) => n + c.length, 0),
+    true,
+  );
+  end.view.setUint32(16, offset, true);
+  return new Blob([...chunks, ...central, end.bytes] as BlobPart[], {
+    type: "application/zip",
+  });
+}
+
+async function canvasToJpeg(canvas: HTMLCanvasElement, quality = 0.9) {
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/jpeg", quality),
+  );
+  if (!blob) throw new Error("JPEG encoding failed");
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+// Minimal PDF 1.4 writer: one full-page JPEG per page, embedded as-is with
+// DCTDecode. Pages are sized at 96 dpi so pixels map to 0.75 pt.
+function buildPdf(
+  pages: Array<{ jpeg: Uint8Array; width: number; height: number }>,
+) {
+  const enc = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const push = (part: string | Uint8Array) => {
+    const bytes = typeof part === "string" ? enc.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const obj = (n: number, ...body: Array<string | Uint8Array>) => {
+    offsets[n] = length;
+    push(`${n} 0 obj\n`);
+    body.forEach(push);
+    push("\nendobj\n");
+  };
+
+  push("%PDF-1.4\n%\u00e2\u00e3\u00cf\u00d3\n");
+  const kids = pages.map((_, i) => `${3 + i * 3} 0 R`).join(" ");
+  obj(1, "<< /Type /Catalog /Pages 2 0 R >>");
+  obj(2, `<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>`);
+  pages.forEach((p, i) => {
+    const n = 3 + i * 3;
+    const w = +(p.width * 0.75).toFixed(2);
+    const h = +(p.height * 0.75).toFixed(2);
+    const draw = `q ${w} 0 0 ${h} 0 0 cm /Im0 Do Q`;
+    obj(
+      n,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] ` +
+        `/Resources << /XObject << /Im0 ${n + 2} 0 R >> >> /Contents ${n + 1} 0 R >>`,
+    );
+    obj(n + 1, `<< /Length ${draw.length} >>\nstream\n${draw}\nendstream`);
+    obj(
+      n + 2,
+      `<< /Type /XObject /Subtype /Image /Width ${p.width} /Height ${p.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${p.jpeg.length} >>\nstream\n`,
+      p.jpeg,
+      "\nendstream",
+    );
+  });
+  const xref = length;
+  const count = 3 + pages.length * 3;
+  push(`xref\n0 ${count}\n0000000000 65535 f \n`);
+  for (let i = 1; i < count; i++) {
+    push(`${String(offsets[i]).padStart(10, "0")} 00000 n \n`);
+  }
+  push(
+    `trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`,
+  );
+  return new Blob(chunks as BlobPart[], { type: "application/pdf" });
+}
+
+function isTransparentColor(c: string) {
+  return (
+    !c ||
+    c === "transparent" ||
+    /^rgba\(.*,\s*0(\.0+)?\)$/.test(c) ||
+    /\/\s*0(\.0+)?\)$/.test(c)
+  );
+}
+
+function roundRectPath(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  r: number,
+) {
+  const rr = Math.max(0, Math.min(r, w / 2, h / 2));
+  ctx.beginPath();
+  ctx.moveTo(x + rr, y);
+  ctx.arcTo(x + w, y, x + w, y + h, rr);
+  ctx.arcTo(x + w, y + h, x, y + h, rr);
+  ctx.arcTo(x, y + h, x, y, rr);
+  ctx.arcTo(x, y, x + w, y, rr);
+  ctx.closePath();
+}
+
+// Copies the live page content into the canvas: panel backgrounds, borders,
+// backdrop blur and text, positioned from the DOM in frame CSS pixels. Paint
+// order follows DOM order, which is enough for this page's flat layout.
+function rasterizeFrameContent(
+  ctx: CanvasRenderingContext2D,
+  frame: HTMLElement,
+  root: HTMLElement,
+  pixelRatio: number,
+) {
+  const fr = frame.getBoundingClientRect();
+  const scale = frame.offsetWidth ? fr.width / frame.offsetWidth : 1;
+  const W = frame.clientWidth;
+  const H = frame.clientHeight;
+  const toFrame = (r: DOMRect) => ({
+    x: (r.left - fr.left) / scale,
+    y: (r.top - fr.top) / scale,
+    w: r.width / scale,
+    h: r.height / scale,
+  });
+  const visible = (r: { x: number; y: number; w: number; h: number }) =>
+    r.w > 0 && r.h > 0 && r.x < W && r.y < H && r.x + r.w > 0 && r.y + r.h > 0;
+
+  const paintBox = (el: Element) => {
+    const cs: CSSStyleDeclaration & { webkitBackdropFilter?: string } =
+      getComputedStyle(el);
+    const r = toFrame(el.getBoundingClientRect());
+    if (!visible(r)) return;
+    const radius = parseFloat(cs.borderTopLeftRadius) || 0;
+    const backdrop = /blur\(([\d.]+)px\)/.exec(
+      cs.backdropFilter || cs.webkitBackdropFilter || "",
+    );
+    if (backdrop) {
+      const b = parseFloat(backdrop[1]);
+      const pad = Math.ceil(b * 2);
+      const sx = Math.max(0, Math.floor((r.x - pad) * pixelRatio));
+      const sy = Math.max(0, Math.floor((r.y - pad) * pixelRatio));
+      const sw = Math.min(
+        ctx.canvas.width - sx,
+        Math.ceil((r.w + pad * 2) * pixelRatio),
+      );
+      const sh = Math.min(
+        ctx.canvas.height - sy,
+        Math.ceil((r.h + pad * 2) * pixelRatio),
+      );
+      if (sw > 0 && sh > 0) {
+        const snap = document.createElement("canvas");
+        snap.width = sw;
+        snap.height = sh;
+        const sctx = snap.getContext("2d")!;
+        sctx.filter = `blur(${b * pixelRatio}px)`;
+        sctx.drawImage(ctx.canvas, sx, sy, sw, sh, 0, 0, sw, sh);
+        ctx.save();
+        roundRectPath(ctx, r.x, r.y, r.w, r.h, radius);
+        ctx.clip();
+        ctx.drawImage(
+          snap,
+          sx / pixelRatio,
+          sy / pixelRatio,
+          sw / pixelRatio,
+          sh / pixelRatio,
+        );
+        ctx.restore();
+      }
+    }
+    if (!isTransparentColor(cs.backgroundColor)) {
+      roundRectPath(ctx, r.x, r.y, r.w, r.h, radius);
+      ctx.fillStyle = cs.backgroundColor;
+      ctx.fill();
+    }
+    const bw = parseFloat(cs.borderTopWidth) || 0;
+    if (bw > 0 && cs.borderTopStyle !== "none") {
+      if (!isTransparentColor(cs.borderTopColor)) {
+        roundRectPath(
+          ctx,
+          r.x + bw / 2,
+          r.y + bw / 2,
+          r.w - bw,
+          r.h - bw,
+          Math.max(0, radius - bw / 2),
+        );
+        ctx.lineWidth = bw;
+        ctx.strokeStyle = cs.borderTopColor;
+        ctx.stroke();
+      }
+    }
+  };
+
+  const paintText = (node: Text) => {
+    const parent = node.parentElement;
+    const text = node.textContent || "";
+    if (!parent || !text.trim()) return;
+    const cs = getComputedStyle(parent);
+    ctx.font = `${cs.fontStyle} ${cs.fontWeight} ${cs.fontSize} ${cs.fontFamily}`;
+    ctx.fillStyle = cs.color;
+    ctx.textBaseline = "alphabetic";
+    const spaced: CanvasRenderingContext2D & { letterSpacing?: string } = ctx;
+    if ("letterSpacing" in spaced) {
+      spaced.letterSpacing =
+        cs.letterSpacing === "normal" ? "0px" : cs.letterSpacing;
+    }
+    const m = ctx.measureText("Hg");
+    const ascent = m.fontBoundingBoxAscent ?? parseFloat(cs.fontSize) * 0.8;
+    const descent = m.fontBoundingBoxDescent ?? parseFloat(cs.fontSize) * 0.2;
+    const range = document.createRange();
+    let line: {
+      x: number;
+      y: number;
+      h: number;
+      start: number;
+      end: number;
+    } | null = null;
+    const flush = () => {
+      if (!line) return;
+      if (line.y < H && line.y + line.h > 0) {
+        const baseline = line.y + (line.h - (ascent + descent)) / 2 + ascent;
+        ctx.fillText(text.slice(line.start, line.end), line.x, baseline);
+      }
+      line = null;
+    };
+    for (const word of text.matchAll(/\S+/g)) {
+      const start = word.index ?? 0;
+      const end = start + word[0].length;
+      range.setStart(node, start);
+      range.setEnd(node, end);
+      const r = toFrame(range.getBoundingClientRect());
+      if (!r.w && !r.h) continue;
+      if (line && Math.abs(r.y - line.y) < r.h / 2) {
+        line.end = end;
+      } else {
+        flush();
+        line = { x: r.x, y: r.y, h: r.h, start, end };
+      }
+    }
+    flush();
+  };
+
+  const walk = (el: Element) => {
+    const cs = getComputedStyle(el);
+    if (cs.display === "none" || cs.visibility === "hidden") return;
+    if (parseFloat(cs.opacity) === 0) return;
+    if (el !== root) paintBox(el);
+    for (const child of Array.from(el.childNodes)) {
+      if (child.nodeType === Node.TEXT_NODE) paintText(child as Text);
+      else if (child.nodeType === Node.ELEMENT_NODE) walk(child as Element);
+    }
+  };
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(0, 0, W, H);
+  ctx.clip();
+  walk(root);
+  ctx.restore();
+}
+
+// Offscreen copy of the background alone (no overlay, no page content) at the
+// given frame size. Shared by the contrast meter and the heatmap.
+async function renderBackgroundCanvas(
+  item: BGItem | undefined,
+  opts: {
+    fit: "cover" | "contain" | "auto";
+    repeat: boolean;
+    pos: string;
+    blur: number;
+  },
+  width: number,
+  height: number,
+) {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = "black";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  await drawBackgroundItem(ctx, item, opts, canvas.width, canvas.height);
+  return canvas;
+}
+
+// Renders a single background the way the live preview does (fit, position,
+// repeat and blur, including the 1.1 scale that hides blurred edges).
+async function drawBackgroundItem(
+  ctx: CanvasRenderingContext2D,
+  it: BGItem | undefined,
+  opts: {
+    fit: "cover" | "contain" | "auto";
+    repeat: boolean;
+    pos: string;
+    blur: number;
+  },
+  W: number,
+  H: number,
+) {
+  if (!it) return;
+  const { fit, repeat, pos, blur } = opts;
+  ctx.save();
+  if (blur > 0) {
+    ctx.translate(W / 2, H / 2);
+    ctx.scale(1.1, 1.1);
+    ctx.translate(-W / 2, -H / 2);
+  }
+  if (it.type === "image" && it.src) {
+    await drawImageBackground(
+      ctx,
+      it.src,
+      fit,
+      itemPosition(it, pos),
+      repeat,
+      blur,
+      W,
+      H,
+    );
+  } else if (it.type === "css" && it.css) {
+    ctx.filter = blur > 0 ? `blur(${blur}px)` : "none";
+    drawGradientBackground(ctx, it.css, W, H);
+  }
+  ctx.restore();
+}
+
 async function drawImageBackground(
   ctx: CanvasRenderingContext2D,
   src: string,
@@ -372,28 +1974,9 @@ async function drawImageBackground(
   ctx.filter = "none";
 }
 
-function drawGradientBackground(
-  ctx: CanvasRenderingContext2D,
-  css: string,
-  W: number,
-  H: number,
-) {
-  const colors = extractColors(css);
-  if (colors.length < 2) {
-    ctx.fillStyle = colors[0] || "black";
-    ctx.fillRect(0, 0, W, H);
-    return;
-  }
-  const gradient = ctx.createLinearGradient(0, 0, W, H);
-  gradient.addColorStop(0, colors[0]);
-  gradient.addColorStop(1, colors[1]);
-  ctx.fillStyle = gradient;
-  ctx.fillRect(0, 0, W, H);
-}
-
 function extractColors(gradient: string): string[] {
   const hex = gradient.match(/#(?:[0-9a-f]{3}|[0-9a-f]{6})/gi) || [];
-  const rgba = gradient.match(/rgba?\\([^\\)]+\\)/gi) || [];
+  const rgba = gradient.match(/rgba?\([^)]+\)/gi) || [];
   return (hex.length ? hex : rgba).slice(0, 6);
 }
 
@@ -414,11 +1997,11 @@ function computeDrawRect(
     h = dh;
   if (fit === "cover") {
     if (srcRatio > dstRatio) {
-      w = dw;
-      h = dw / srcRatio;
-    } else {
       h = dh;
       w = dh * srcRatio;
+    } else {
+      w = dw;
+      h = dw / srcRatio;
     }
   } else if (fit === "contain") {
     if (srcRatio > dstRatio) {
@@ -429,10 +2012,105 @@ function computeDrawRect(
       w = dh * srcRatio;
     }
   }
+  // Keywords or percentages, as CSS background-position reads them.
+  const align = (v: string | undefined) => {
+    if (v === "left" || v === "top") return 0;
+    if (v === "right" || v === "bottom") return 1;
+    const pct = v?.endsWith("%") ? parseFloat(v) / 100 : NaN;
+    return Number.isFinite(pct) ? pct : 0.5;
+  };
   const [xPos, yPos] = pos.split(" ");
-  const x = xPos === "left" ? 0 : xPos === "right" ? dw - w : (dw - w) / 2;
-  const y = yPos === "top" ? 0 : yPos === "bottom" ? dh - h : (dh - h) / 2;
-  return { dx: x, dy: y, dw: w, dh: h };
+  return {
+    dx: (dw - w) * align(xPos),
+    dy: (dh - h) * align(yPos),
+    dw: w,
+    dh: h,
+  };
+}
+
+// Part of the source image the frame shows, as fractions of its size.
+function visibleSourceRect(
+  sw: number,
+  sh: number,
+  fw: number,
+  fh: number,
+  fit: "cover" | "contain" | "auto",
+  pos: string,
+) {
+  const r = computeDrawRect(sw, sh, fw, fh, fit, pos);
+  const x0 = Math.max(0, r.dx);
+  const y0 = Math.max(0, r.dy);
+  const x1 = Math.min(fw, r.dx + r.dw);
+  const y1 = Math.min(fh, r.dy + r.dh);
+  return {
+    x: (x0 - r.dx) / r.dw,
+    y: (y0 - r.dy) / r.dh,
+    w: Math.max(0, x1 - x0) / r.dw,
+    h: Math.max(0, y1 - y0) / r.dh,
+  };
+}
+
+type SweepFrame = {
+  width: number;
+  height: number;
+  cols: number;
+  page: number | null;
+  cards: number | null;
+  crop: { x: number; y: number; w: number; h: number } | null;
+  thumb: string;
+  changes: string[];
+};
+
+// The widths a sweep visits, with each field raised to its input minimum and
+// the last step landing on `to`. Stops counting once past SWEEP_MAX_FRAMES.
+function sweepWidths(range: {
+  from: number;
+  to: number;
+  step: number;
+}): number[] {
+  const from = Math.max(SWEEP_MIN_WIDTH, range.from);
+  const to = Math.max(SWEEP_MIN_WIDTH, range.to);
+  const step = Math.max(SWEEP_MIN_STEP, range.step);
+  if (![from, to, step].every(Number.isFinite) || to < from) return [];
+  const widths: number[] = [];
+  for (let w = from; w < to && widths.length <= SWEEP_MAX_FRAMES; w += step) {
+    widths.push(w);
+  }
+  widths.push(to);
+  return widths;
+}
+
+// What changed noticeably between two neighbouring sweep widths: the card
+// column count, contrast crossing AA or moving by more than 15%, and the
+// visible part of the image moving by more than a tenth of its size.
+function describeSweepChanges(
+  prev: Omit<SweepFrame, "thumb" | "changes">,
+  next: Omit<SweepFrame, "thumb" | "changes">,
+) {
+  const out: string[] = [];
+  if (prev.cols !== next.cols) {
+    out.push(`cards ${prev.cols} → ${next.cols} columns`);
+  }
+  for (const key of ["page", "cards"] as const) {
+    const a = prev[key];
+    const b = next[key];
+    if (a == null || b == null) continue;
+    if (a >= 4.5 !== b >= 4.5 || Math.abs(b - a) / a > 0.15) {
+      out.push(`${key} contrast ${a.toFixed(1)} → ${b.toFixed(1)}`);
+    }
+  }
+  if (prev.crop && next.crop) {
+    const moved = (["x", "y", "w", "h"] as const).some(
+      (k) => Math.abs(prev.crop![k] - next.crop![k]) > 0.1,
+    );
+    if (moved) {
+      out.push(
+        `crop ${Math.round(prev.crop.w * 100)}×${Math.round(prev.crop.h * 100)}% → ` +
+          `${Math.round(next.crop.w * 100)}×${Math.round(next.crop.h * 100)}%`,
+      );
+    }
+  }
+  return out;
 }
 
 function loadImage(src: string) {
@@ -444,194 +2122,1994 @@ function loadImage(src: string) {
   });
 }
 
-function generateRandomCards(count: number) {
-  const cardTitles = [
-    "AI Revolution",
-    "Neural Networks",
-    "Machine Learning",
-    "Deep Learning",
-    "Computer Vision",
-    "Natural Language",
-    "Robotics",
-    "Automation",
-    "Data Science",
-    "Predictive Analytics",
-    "Pattern Recognition",
-    "Algorithm Design",
-    "Quantum Computing",
-    "Edge Computing",
-    "Cloud AI",
-    "AI Ethics",
-    "Autonomous Systems",
-    "Smart Cities",
-    "Digital Transformation",
-    "Tech Innovation",
-    "Future of Work",
-    "Human-AI Collaboration",
-    "AI Safety",
-    "Machine Consciousness",
-  ];
-  const cardContents = [
-    "Explore cutting-edge developments in artificial intelligence and their impact on society.",
-    "Discover how machine learning algorithms are transforming industries worldwide.",
-    "Learn about the latest breakthroughs in neural network architectures and training methods.",
-    "Understand the principles behind deep learning and its applications in real-world scenarios.",
-    "Investigate computer vision techniques that enable machines to interpret visual information.",
-    "Dive into natural language processing and how AI understands human communication.",
-  ];
-  const cards = [];
-  for (let i = 0; i < count; i++) {
-    cards.push({
-      id: uid(),
-      title: cardTitles[Math.floor(Math.random() * cardTitles.length)],
-      content: cardContents[Math.floor(Math.random() * cardContents.length)],
-    });
-  }
-  return cards;
-}
-
 // ================================================================================================
-// MAIN COMPONENT
+// STATE SCHEMA & MIGRATIONS
+// ================================================================================================
+
+type MigrationReport = {
+  from: number;
+  to: number;
+  dropped: string[];
+  defaulted: string[];
+};
+
+// One step per schema version. Files and localStorage blobs written before
+// versioning existed count as version 1.
+const MIGRATIONS: Array<{
+  to: number;
+  up: (s: Record<string, unknown>) => Record<string, unknown>;
+}> = [
+  {
+    // v1 → v2: single "mobile" device plus rotate, cardColor replaces darkMode.
+    to: 2,
+    up: (s) => {
+      const out = { ...s };
+      if (
+        out.device === "mobile-portrait" ||
+        out.device === "mobile-landscape"
+      ) {
+        if (out.rotate === undefined) {
+          out.rotate = out.device === "mobile-landscape";
+        }
+        out.device = "mobile";
+      }
+      if (typeof out.cardColor !== "string" && "darkMode" in out) {
+        out.cardColor = out.darkMode ? "#000000" : "#ffffff";
+      }
+      delete out.darkMode;
+      return out;
+    },
+  },
+  {
+    // v2 → v3: saved looks library.
+    to: 3,
+    up: (s) => ({ looks: [], ...s }),
+  },
+  {
+    // v3 → v4: user-defined device profiles.
+    to: 4,
+    up: (s) => ({ customDevices: [], ...s }),
+  },
+];
+
+const DEFAULT_STATE: Omit<
+  ExportState,
+  "items" | "generatedCards" | "looks" | "customDevices"
+> = {
+  version: SCHEMA_VERSION,
+  index: 0,
+  fit: "cover",
+  repeat: false,
+  pos: "center center",
+  overlay: 0.35,
+  blur: 0,
+  device: "fluid",
+  rotate: false,
+  cardOpacity: 0.08,
+  cardColor: "#ffffff",
+  cardCount: 3,
+  sidebarCollapsed: false,
+};
+
+const isNum =
+  (min: number, max: number) =>
+  (v: unknown): v is number =>
+    typeof v === "number" && Number.isFinite(v) && v >= min && v <= max;
+const isBool = (v: unknown): v is boolean => typeof v === "boolean";
+const isStr = (v: unknown): v is string => typeof v === "string";
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === "object" && !Array.isArray(v);
+
+type StateField = keyof typeof DEFAULT_STATE;
+
+const STATE_FIELDS: {
+  [K in StateField]: (v: unknown) => v is ExportState[K];
+} = {
+  version: isNum(0, Infinity),
+  index: isNum(0, Infinity),
+  fit: (v): v is ExportState["fit"] =>
+    v === "cover" || v === "contain" || v === "auto",
+  repeat: isBool,
+  pos: isStr,
+  overlay: isNum(0, 0.95),
+  blur: isNum(0, 12),
+  device: isStr, // checked against the device list once customDevices is read
+  rotate: isBool,
+  cardOpacity: isNum(0, 1),
+  cardColor: (v): v is string => isStr(v) && /^#[0-9a-f]{6}$/i.test(v),
+  cardCount: (v): v is number => isNum(1, 12)(v) && Number.isInteger(v),
+  sidebarCollapsed: isBool,
+};
+
+// Copies `v` into `state[key]` if it is valid for that field.
+function assignStateField<K extends StateField>(
+  state: Pick<ExportState, K>,
+  key: K,
+  v: unknown,
+): boolean {
+  const valid = STATE_FIELDS[key];
+  if (!valid(v)) return false;
+  state[key] = v;
+  return true;
+}
+
+const LOOK_FIELDS = [
+  "fit",
+  "pos",
+  "repeat",
+  "overlay",
+  "blur",
+  "cardColor",
+  "cardOpacity",
+  "device",
+  "rotate",
+] as const;
+
+function validateDeviceProfile(x: unknown): DeviceProfile | null {
+  if (!isRecord(x) || !isStr(x.key) || !isStr(x.label)) return null;
+  const size = (v: unknown): v is number =>
+    isNum(100, 10000)(v) && Number.isInteger(v);
+  if (!size(x.w) || !size(x.h) || !isNum(0.5, 5)(x.dpr)) return null;
+  const profile: DeviceProfile = {
+    key: x.key,
+    label: x.label,
+    w: x.w,
+    h: x.h,
+    dpr: x.dpr,
+  };
+  if (x.insets != null) {
+    if (!isRecord(x.insets)) return null;
+    const { top, right, bottom, left } = x.insets;
+    const inset = isNum(0, 500);
+    if (!inset(top) || !inset(right) || !inset(bottom) || !inset(left)) {
+      return null;
+    }
+    profile.insets = { top, right, bottom, left };
+  }
+  return profile;
+}
+
+function validateLook(x: unknown): Look | null {
+  if (!isRecord(x) || !isStr(x.id) || !isStr(x.itemId)) return null;
+  const { fit, pos, repeat, overlay, blur } = x;
+  const { cardColor, cardOpacity, device, rotate } = x;
+  if (
+    !STATE_FIELDS.fit(fit) ||
+    !STATE_FIELDS.pos(pos) ||
+    !STATE_FIELDS.repeat(repeat) ||
+    !STATE_FIELDS.overlay(overlay) ||
+    !STATE_FIELDS.blur(blur) ||
+    !STATE_FIELDS.cardColor(cardColor) ||
+    !STATE_FIELDS.cardOpacity(cardOpacity) ||
+    !STATE_FIELDS.device(device) ||
+    !STATE_FIELDS.rotate(rotate)
+  ) {
+    return null;
+  }
+  return {
+    id: x.id,
+    name: isStr(x.name) ? x.name : "Look",
+    itemId: x.itemId,
+    fit,
+    pos,
+    repeat,
+    overlay,
+    blur,
+    cardColor,
+    cardOpacity,
+    device,
+    rotate,
+  };
+}
+
+function validateArt(x: unknown): BGItem["art"] {
+  if (!isRecord(x)) return undefined;
+  const out: NonNullable<BGItem["art"]> = {};
+  for (const { key } of ART_TARGETS) {
+    const o = x[key];
+    if (!isRecord(o)) continue;
+    const v: ArtOverride = {};
+    if (STATE_FIELDS.fit(o.fit)) v.fit = o.fit;
+    if (STATE_FIELDS.pos(o.pos)) v.pos = o.pos;
+    if (STATE_FIELDS.overlay(o.overlay)) v.overlay = o.overlay;
+    if (isStr(o.itemId)) v.itemId = o.itemId;
+    out[key] = v;
+  }
+  return Object.keys(out).length ? out : undefined;
+}
+
+function validateItem(x: unknown): BGItem | null {
+  if (!isRecord(x) || !isStr(x.id)) return null;
+  if (x.type === "css") {
+    if (!isStr(x.css)) return null;
+  } else if (x.type === "image") {
+    if (!isStr(x.src) && !isStr(x.blobId)) return null;
+  } else {
+    return null;
+  }
+  const art = validateArt(x.art);
+  const f = x.focus;
+  const focus =
+    isRecord(f) && isNum(0, 100)(f.x) && isNum(0, 100)(f.y)
+      ? { x: f.x, y: f.y }
+      : undefined;
+  const origin =
+    x.origin === "preset" || x.origin === "upload" || x.origin === "custom"
+      ? x.origin
+      : x.type === "image"
+        ? "upload"
+        : "custom";
+  return {
+    id: x.id,
+    name: isStr(x.name) ? x.name : x.id,
+    type: x.type,
+    ...(x.type === "css" && isStr(x.css) ? { css: x.css } : {}),
+    ...(isStr(x.src) ? { src: x.src } : {}),
+    ...(isStr(x.blobId) ? { blobId: x.blobId } : {}),
+    origin,
+    favorite: x.favorite === true,
+    ...(art ? { art } : {}),
+    ...(focus ? { focus } : {}),
+  };
+}
+
+// Upgrades any saved or exported state to SCHEMA_VERSION, then checks every
+// field. Invalid or missing fields fall back to defaults, unknown fields and
+// unusable items/cards are dropped; both are listed in the report.
+function migrateState(raw: unknown): {
+  state: ExportState;
+  report: MigrationReport;
+} {
+  let s: Record<string, unknown> = isRecord(raw) ? { ...raw } : {};
+  const from = isNum(1, Infinity)(s.version) ? s.version : 1;
+  for (const step of MIGRATIONS) {
+    if (step.to > from) s = step.up(s);
+  }
+  const report: MigrationReport = {
+    from,
+    to: SCHEMA_VERSION,
+    dropped: [],
+    defaulted: [],
+  };
+
+  const state = { ...DEFAULT_STATE } as ExportState;
+  for (const key of Object.keys(STATE_FIELDS) as StateField[]) {
+    if (key === "version") continue;
+    if (!assignStateField(state, key, s[key])) report.defaulted.push(key);
+  }
+
+  if (Array.isArray(s.items)) {
+    state.items = [];
+    s.items.forEach((x: unknown, i: number) => {
+      const item = validateItem(x);
+      if (item) state.items.push(item);
+      else report.dropped.push(`items[${i}]`);
+    });
+    state.items = pruneArtSources(state.items);
+  } else {
+    state.items = normalizeItems(PRESETS);
+    report.defaulted.push("items");
+  }
+  if (state.index > Math.max(0, state.items.length - 1)) {
+    state.index = 0;
+    if (!report.defaulted.includes("index")) report.defaulted.push("index");
+  }
+
+  if (Array.isArray(s.generatedCards)) {
+    state.generatedCards = [];
+    s.generatedCards.forEach((c: unknown, i: number) => {
+      if (isRecord(c) && isStr(c.id) && isStr(c.title) && isStr(c.content)) {
+        state.generatedCards.push({
+          id: c.id,
+          title: c.title,
+          content: c.content,
+        });
+      } else {
+        report.dropped.push(`generatedCards[${i}]`);
+      }
+    });
+  } else {
+    state.generatedCards = generateRandomCards(6);
+    report.defaulted.push("generatedCards");
+  }
+
+  state.looks = [];
+  if (Array.isArray(s.looks)) {
+    s.looks.forEach((x: unknown, i: number) => {
+      const look = validateLook(x);
+      if (look) state.looks.push(look);
+      else report.dropped.push(`looks[${i}]`);
+    });
+  } else {
+    report.defaulted.push("looks");
+  }
+
+  state.customDevices = [];
+  if (Array.isArray(s.customDevices)) {
+    s.customDevices.forEach((x: unknown, i: number) => {
+      const profile = validateDeviceProfile(x);
+      const taken =
+        profile &&
+        allDevices(state.customDevices).some((d) => d.key === profile.key);
+      if (profile && !taken) state.customDevices.push(profile);
+      else report.dropped.push(`customDevices[${i}]`);
+    });
+  } else {
+    report.defaulted.push("customDevices");
+  }
+  if (!allDevices(state.customDevices).some((d) => d.key === state.device)) {
+    state.device = DEFAULT_STATE.device;
+    if (!report.defaulted.includes("device")) report.defaulted.push("device");
+  }
+
+  const known = new Set<string>([
+    ...Object.keys(DEFAULT_STATE),
+    "items",
+    "generatedCards",
+    "looks",
+    "customDevices",
+  ]);
+  for (const key of Object.keys(s)) {
+    if (!known.has(key)) report.dropped.push(key);
+  }
+  state.version = SCHEMA_VERSION;
+  return { state, report };
+}
+
+function describeMigrationReport(r: MigrationReport) {
+  const parts: string[] = [];
+  if (r.from < r.to) parts.push(`upgraded v${r.from} → v${r.to}`);
+  if (r.from > r.to) parts.push(`from newer v${r.from}`);
+  if (r.defaulted.length) parts.push(`defaulted ${r.defaulted.join(", ")}`);
+  if (r.dropped.length) parts.push(`dropped ${r.dropped.join(", ")}`);
+  return parts.join("; ");
+}
+
+// Reads the saved session (current key first, then legacy keys) through the
+// migration pipeline. A fresh browser gets defaults and no report.
+function loadStoredState(): {
+  state: ExportState;
+  report: MigrationReport | null;
+} {
+  for (const key of [LS_KEY, ...LEGACY_LS_KEYS]) {
+    try {
+      const raw = localStorage.getItem(key);
+      if (raw) return migrateState(JSON.parse(raw));
+    } catch {}
+  }
+  return {
+    state: migrateState({ version: SCHEMA_VERSION }).state,
+    report: null,
+  };
+}
+
+// Settings a permalink carries; everything else stays as the session had it.
+const PERMALINK_FIELDS = [
+  "fit",
+  "pos",
+  "repeat",
+  "overlay",
+  "blur",
+  "device",
+  "rotate",
+  "cardColor",
+  "cardOpacity",
+  "cardCount",
+] as const;
+
+const LINK_PLACEHOLDER_CSS =
+  "repeating-linear-gradient(45deg, #2a2a2a 0px, #2a2a2a 24px, #3a3a3a 24px, #3a3a3a 48px)";
+
+// CSS backgrounds travel verbatim in the hash. Uploads can't, so only their
+// name is kept and `placeholder` tells the caller to warn about it.
+function encodePermalink(state: ExportState): {
+  hash: string;
+  placeholder: boolean;
+} {
+  const p = new URLSearchParams();
+  const it = state.items[state.index];
+  if (it?.type === "css") {
+    p.set("bg", it.css || "");
+    p.set("name", it.name);
+  } else if (it) {
+    p.set("img", it.name);
+  }
+  for (const key of PERMALINK_FIELDS) p.set(key, String(state[key]));
+  p.set("cards", String(state.generatedCards.length));
+  return { hash: p.toString(), placeholder: it?.type === "image" };
+}
+
+// Applies a permalink hash on top of `state`. The background is matched
+// against the library by CSS and added as a custom item when missing; an
+// image link selects a placeholder. Returns null when the hash isn't a link.
+function applyPermalink(
+  state: ExportState,
+  hash: string,
+): { state: ExportState; notice: string } | null {
+  const p = new URLSearchParams(hash.replace(/^#/, ""));
+  if (!p.has("bg") && !p.has("img")) return null;
+  const next: ExportState = { ...state, items: [...state.items] };
+  const ignored: string[] = [];
+  for (const key of PERMALINK_FIELDS) {
+    const raw = p.get(key);
+    if (raw === null) continue;
+    const kind = typeof DEFAULT_STATE[key];
+    const v =
+      kind === "number"
+        ? Number(raw)
+        : kind === "boolean"
+          ? raw === "true"
+            ? true
+            : raw === "false"
+              ? false
+              : raw
+          : raw;
+    if (!assignStateField(next, key, v)) ignored.push(key);
+  }
+  // Card text isn't in the link, only how many cards the page shows.
+  const cards = p.get("cards");
+  if (cards !== null) {
+    const n = Number(cards);
+    if (!STATE_FIELDS.cardCount(n)) ignored.push("cards");
+    else if (n !== next.generatedCards.length) {
+      next.generatedCards = generateRandomCards(n);
+    }
+  }
+  if (!allDevices(next.customDevices).some((d) => d.key === next.device)) {
+    next.device = state.device;
+    ignored.push("device");
+  }
+
+  const notices: string[] = [];
+  const css = p.get("bg");
+  let found = -1;
+  if (css !== null && validateCssBackground(css).ok) {
+    found = next.items.findIndex(
+      (x) => x.type === "css" && cssKey(x.css || "") === cssKey(css),
+    );
+    if (found < 0) {
+      next.items.push({
+        id: uid(),
+        name: p.get("name") || "Shared background",
+        type: "css",
+        css,
+        origin: "custom",
+      });
+      found = next.items.length - 1;
+    }
+  } else if (css !== null) {
+    ignored.push("bg");
+  } else {
+    const name = p.get("img") || "image";
+    const id = `placeholder:${name}`;
+    found = next.items.findIndex((x) => x.id === id);
+    if (found < 0) {
+      next.items.push({
+        id,
+        name: `${name} (placeholder)`,
+        type: "css",
+        css: LINK_PLACEHOLDER_CSS,
+        origin: "custom",
+      });
+      found = next.items.length - 1;
+    }
+    notices.push(`uploaded image "${name}" replaced by a placeholder`);
+  }
+  if (found >= 0) next.index = found;
+  if (ignored.length) notices.push(`ignored invalid ${ignored.join(", ")}`);
+  return { state: next, notice: notices.join("; ") };
+}
+
+// Saved session with any permalink in the address bar applied on top. The
+// hash is cleared afterwards so later edits aren't overridden on reload.
+function loadInitialState() {
+  const stored = loadStoredState();
+  const link =
+    typeof location !== "undefined"
+      ? applyPermalink(stored.state, location.hash)
+      : null;
+  if (!link) return { ...stored, linkNotice: null };
+  history.replaceState(null, "", location.pathname + location.search);
+  return { ...stored, state: link.state, linkNotice: link.notice };
+}
+
+// ================================================================================================
+// UNDO HISTORY
+// ================================================================================================
+
+// Each entry holds the state on the other side of the change: the state
+// before it while on the undo stack, the state after it on the redo stack.
+type HistoryEntry = {
+  key: string;
+  label: string;
+  at: number;
+  state: ExportState;
+};
+
+const HISTORY_LIMIT = 100;
+// Repeated changes to the same fields within this window (slider drags,
+// typing a name) collapse into one entry.
+const HISTORY_COALESCE_MS = 800;
+
+const HISTORY_LABELS: {
+  [
+    K in Exclude<
+      keyof ExportState,
+      "version" | "items" | "index" | "sidebarCollapsed"
+    >
+  ]: (s: ExportState) => string;
+} = {
+  fit: (s) => `Fit ${s.fit}`,
+  pos: (s) => `Position ${s.pos}`,
+  repeat: (s) => `Repeat ${s.repeat ? "on" : "off"}`,
+  overlay: (s) => `Overlay ${Math.round(s.overlay * 100)}%`,
+  blur: (s) => `Blur ${s.blur}px`,
+  device: (s) => `Device ${s.device}`,
+  rotate: (s) => (s.rotate ? "Rotate to landscape" : "Rotate to portrait"),
+  cardOpacity: (s) => `Card opacity ${Math.round(s.cardOpacity * 100)}%`,
+  cardColor: (s) => `Card colour ${s.cardColor}`,
+  cardCount: (s) => `${s.cardCount} cards`,
+  generatedCards: () => "Regenerate cards",
+  looks: () => "Edit looks",
+  customDevices: () => "Edit devices",
+};
+
+// What the library shows, ignoring object URLs and blob ids that only change
+// when images are rehydrated from IndexedDB.
+function librarySignature(xs: BGItem[]) {
+  return JSON.stringify(
+    xs.map((x) => [
+      x.id,
+      x.name,
+      x.type,
+      x.css,
+      x.origin,
+      x.favorite,
+      x.art,
+      x.focus,
+    ]),
+  );
+}
+
+// Names the difference between two states for the history panel, or null
+// when nothing undoable changed.
+function describeStateChange(
+  prev: ExportState,
+  next: ExportState,
+): { key: string; label: string } | null {
+  if (librarySignature(prev.items) !== librarySignature(next.items)) {
+    const before = new Set(prev.items.map((x) => x.id));
+    const after = new Set(next.items.map((x) => x.id));
+    const added = next.items.filter((x) => !before.has(x.id));
+    const removed = prev.items.filter((x) => !after.has(x.id));
+    const changed = (k: "art" | "focus" | "css") =>
+      prev.items.some(
+        (x, i) => JSON.stringify(x[k]) !== JSON.stringify(next.items[i]?.[k]),
+      );
+    const label =
+      added.length && removed.length
+        ? "Replace library"
+        : added.length === 1
+          ? `Add ${added[0].name}`
+          : added.length
+            ? `Add ${added.length} backgrounds`
+            : removed.length === 1
+              ? `Remove ${removed[0].name}`
+              : removed.length
+                ? `Remove ${removed.length} backgrounds`
+                : changed("art")
+                  ? "Art direction"
+                  : changed("focus")
+                    ? "Focal point"
+                    : changed("css")
+                      ? "Edit gradient"
+                      : "Edit library";
+    return { key: `items:${label}`, label };
+  }
+  const fields = (
+    Object.keys(HISTORY_LABELS) as Array<keyof typeof HISTORY_LABELS>
+  ).filter((k) => JSON.stringify(prev[k]) !== JSON.stringify(next[k]));
+  if (prev.index !== next.index && !fields.length) {
+    return {
+      key: "index",
+      label: `Select ${next.items[next.index]?.name ?? "background"}`,
+    };
+  }
+  if (!fields.length) return null;
+  const key = fields.join(",");
+  if (fields.length > 2)
+    return { key, label: `Change ${fields.length} settings` };
+  return { key, label: fields.map((k) => HISTORY_LABELS[k](next)).join(", ") };
+}
+
+// ================================================================================================
+// CSS GRADIENTS
+// ================================================================================================
+
+type CssLength = { value: number; unit: "%" | "px" | "deg" };
+
+type GradientStop = { color: string; pos?: CssLength };
+
+type GradientLayer =
+  | {
+      kind: "linear";
+      repeating: boolean;
+      angle: number; // CSS degrees, 0 = to top, clockwise
+      to?: { x: number; y: number }; // corner keywords depend on the box
+      stops: GradientStop[];
+    }
+  | {
+      kind: "radial";
+      repeating: boolean;
+      shape: "circle" | "ellipse";
+      size: string | CssLength[];
+      at: string[];
+      stops: GradientStop[];
+    }
+  | {
+      kind: "conic";
+      repeating: boolean;
+      from: number;
+      at: string[];
+      stops: GradientStop[];
+    }
+  | { kind: "color"; color: string };
+
+const GRADIENT_CONFIG_RE =
+  /^(to\s|from\s|at\s|circle\b|ellipse\b|closest-|farthest-|-?[\d.]+(deg|rad|grad|turn|px|%|em|rem|vw|vh)?(\s|$))/i;
+
+const PLAIN_COLOR_RE =
+  /^(#[0-9a-f]{3,8}|(rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\(.*\)|[a-z]+)$/i;
+
+// Splits on a separator that isn't nested inside parentheses.
+function splitTopLevel(input: string, sep: "," | " "): string[] {
+  const out: string[] = [];
+  let depth = 0;
+  let buf = "";
+  for (const ch of input) {
+    if (ch === "(") depth++;
+    else if (ch === ")") depth = Math.max(0, depth - 1);
+    const isSep = sep === " " ? /\s/.test(ch) : ch === sep;
+    if (depth === 0 && isSep) {
+      if (buf.trim()) out.push(buf.trim());
+      buf = "";
+      continue;
+    }
+    buf += ch;
+  }
+  if (buf.trim()) out.push(buf.trim());
+  return out;
+}
+
+function parseCssLength(tok: string): CssLength | null {
+  const m = /^(-?[\d.]+)(%|px|deg|rad|grad|turn)?$/i.exec(tok.trim());
+  if (!m) return null;
+  const v = parseFloat(m[1]);
+  if (Number.isNaN(v)) return null;
+  const unit = (m[2] || "px").toLowerCase();
+  if (unit === "rad") return { value: (v * 180) / Math.PI, unit: "deg" };
+  if (unit === "grad") return { value: v * 0.9, unit: "deg" };
+  if (unit === "turn") return { value: v * 360, unit: "deg" };
+  return { value: v, unit: unit as CssLength["unit"] };
+}
+
+function parseGradientStops(args: string[]): GradientStop[] {
+  const stops: GradientStop[] = [];
+  for (const arg of args) {
+    const toks = splitTopLevel(arg, " ");
+    const positions: CssLength[] = [];
+    while (toks.length > 1) {
+      const len = parseCssLength(toks[toks.length - 1]);
+      if (!len) break;
+      positions.unshift(len);
+      toks.pop();
+    }
+    // A lone position is an interpolation hint; canvas can't express it.
+    if (toks.length === 1 && parseCssLength(toks[0])) continue;
+    const color = toks.join(" ");
+    if (!positions.length) stops.push({ color });
+    for (const pos of positions.slice(0, 2)) stops.push({ color, pos });
+  }
+  return stops;
+}
+
+function parseGradientLayer(layer: string): GradientLayer | null {
+  const m = /^(repeating-)?(linear|radial|conic)-gradient\(([\s\S]*)\)$/i.exec(
+    layer.trim(),
+  );
+  if (!m) {
+    const c = layer.trim();
+    return PLAIN_COLOR_RE.test(c) && !/^(none|inherit|initial|unset)$/i.test(c)
+      ? { kind: "color", color: c }
+      : null;
+  }
+  const repeating = !!m[1];
+  const kind = m[2].toLowerCase();
+  const args = splitTopLevel(m[3], ",");
+  const config =
+    args.length && GRADIENT_CONFIG_RE.test(args[0]) ? args.shift()! : "";
+  const stops = parseGradientStops(args);
+  if (!stops.length) return null;
+  const [shapePart, atPart = ""] = config.split(/(?:^|\s)at\s/i);
+  const at = atPart.trim() ? splitTopLevel(atPart, " ") : ["center", "center"];
+
+  if (kind === "linear") {
+    const toks = splitTopLevel(config, " ");
+    if (toks[0]?.toLowerCase() === "to") {
+      const words = toks.slice(1).map((t) => t.toLowerCase());
+      const x = words.includes("left") ? -1 : words.includes("right") ? 1 : 0;
+      const y = words.includes("top") ? -1 : words.includes("bottom") ? 1 : 0;
+      const angle = ((Math.atan2(x, -y) * 180) / Math.PI + 360) % 360;
+      return {
+        kind: "linear",
+        repeating,
+        angle,
+        to: x !== 0 && y !== 0 ? { x, y } : undefined,
+        stops,
+      };
+    }
+    const a = parseCssLength(toks[0] || "");
+    return {
+      kind: "linear",
+      repeating,
+      angle: a && a.unit === "deg" ? a.value : 180,
+      stops,
+    };
+  }
+
+  if (kind === "radial") {
+    let shape: "circle" | "ellipse" | undefined;
+    let size: string | CssLength[] = "farthest-corner";
+    const lengths: CssLength[] = [];
+    for (const tok of splitTopLevel(shapePart, " ")) {
+      const t = tok.toLowerCase();
+      if (t === "circle" || t === "ellipse") shape = t;
+      else if (/^(closest|farthest)-(side|corner)$/.test(t)) size = t;
+      else {
+        const len = parseCssLength(t);
+        if (len) lengths.push(len);
+      }
+    }
+    if (lengths.length) size = lengths.slice(0, 2);
+    return {
+      kind: "radial",
+      repeating,
+      shape: shape ?? (lengths.length === 1 ? "circle" : "ellipse"),
+      size,
+      at,
+      stops,
+    };
+  }
+
+  const from = /from\s+(\S+)/i.exec(shapePart);
+  const fromLen = from ? parseCssLength(from[1]) : null;
+  return {
+    kind: "conic",
+    repeating,
+    from: fromLen && fromLen.unit === "deg" ? fromLen.value : 0,
+    at,
+    stops,
+  };
+}
+
+// Parses a CSS background-image value into its layers, topmost first.
+// Layers we can't render (url(), image-set(), ...) are dropped.
+function parseCssBackground(css: string): GradientLayer[] {
+  return splitTopLevel(css.replace(/;\s*$/, ""), ",")
+    .map(parseGradientLayer)
+    .filter((x): x is GradientLayer => !!x);
+}
+
+function normalizeCssBackgroundInput(value: string) {
+  return value
+    .trim()
+    .replace(/^background(-image)?\s*:\s*/i, "")
+    .replace(/;\s*$/, "")
+    .trim();
+}
+
+// Live validation for the custom CSS editor. The browser decides whether the
+// value is valid at all; our parser decides what the PNG export can draw.
+function validateCssBackground(value: string): {
+  ok: boolean;
+  error?: string;
+  warning?: string;
+} {
+  const v = normalizeCssBackgroundInput(value);
+  if (!v) return { ok: false, error: "Enter a background-image value" };
+  const checked =
+    typeof CSS !== "undefined" && typeof CSS.supports === "function";
+  if (checked && !CSS.supports("background-image", v)) {
+    return { ok: false, error: "Not a valid background-image value" };
+  }
+  const layers = splitTopLevel(v, ",");
+  const drawable = layers.filter((l) => parseGradientLayer(l)).length;
+  // Without the browser's verdict, nothing we can draw means nothing we trust;
+  // with it, url() and image-set() layers are fine, just not exportable.
+  if (!drawable && !checked) {
+    return { ok: false, error: "No gradient or colour layers found" };
+  }
+  if (drawable < layers.length) {
+    const n = layers.length - drawable;
+    return {
+      ok: true,
+      warning: `${n} layer${n > 1 ? "s" : ""} won't appear in PNG export`,
+    };
+  }
+  return { ok: true };
+}
+
+// Editable form of a single gradient layer, used by the visual builder.
+type BuilderStop = { id: string; color: string; alpha: number; pos: number };
+
+type GradientModel = {
+  kind: "linear" | "radial" | "conic";
+  repeating: boolean;
+  angle: number;
+  shape: "circle" | "ellipse";
+  atX: number;
+  atY: number;
+  stops: BuilderStop[];
+};
+
+const DEFAULT_GRADIENT_MODEL: GradientModel = {
+  kind: "linear",
+  repeating: false,
+  angle: 135,
+  shape: "ellipse",
+  atX: 50,
+  atY: 50,
+  stops: [
+    { id: "s0", color: "#1d2b64", alpha: 1, pos: 0 },
+    { id: "s1", color: "#f8cdda", alpha: 1, pos: 100 },
+  ],
+};
+
+let colorScratch: CanvasRenderingContext2D | null = null;
+
+// Any CSS colour → #rrggbb plus alpha, for <input type="color">.
+function cssColorToHexAlpha(color: string): { color: string; alpha: number } {
+  const hex = (n: number) =>
+    Math.max(0, Math.min(255, Math.round(n)))
+      .toString(16)
+      .padStart(2, "0");
+  const h = /^#([0-9a-f]{3,8})$/i.exec(color.trim());
+  if (h) {
+    let v = h[1];
+    if (v.length <= 4) v = v.replace(/./g, (c) => c + c);
+    return {
+      color: `#${v.slice(0, 6).toLowerCase()}`,
+      alpha: v.length === 8 ? parseInt(v.slice(6), 16) / 255 : 1,
+    };
+  }
+  const rgb = /^rgba?\(([^)]+)\)$/i.exec(color.trim());
+  if (rgb) {
+    const [r, g, b, a = "1"] = rgb[1].split(/[\s,/]+/).filter(Boolean);
+    return {
+      color: `#${hex(Number(r))}${hex(Number(g))}${hex(Number(b))}`,
+      alpha: a.endsWith("%") ? parseFloat(a) / 100 : Number(a),
+    };
+  }
+  if (typeof document === "undefined") return { color: "#000000", alpha: 1 };
+  colorScratch ??= document.createElement("canvas").getContext("2d");
+  const parsed = colorScratch && parseCanvasColor(colorScratch, color);
+  return parsed
+    ? {
+        color: `#${hex(parsed[0])}${hex(parsed[1])}${hex(parsed[2])}`,
+        alpha: parsed[3],
+      }
+    : { color: "#000000", alpha: 1 };
+}
+
+// Opens the first gradient layer of a CSS value in the builder.
+function gradientModelFromCss(css: string): GradientModel | null {
+  const layer = parseCssBackground(css).find(
+    (l): l is Exclude<GradientLayer, { kind: "color" }> => l.kind !== "color",
+  );
+  if (!layer) return null;
+  const stops = resolveGradientStops(layer.stops, 100).map((st, i) => ({
+    id: `s${i}`,
+    ...cssColorToHexAlpha(st.color),
+    pos: Math.round(st.offset * 1000) / 10,
+  }));
+  const at =
+    layer.kind === "linear"
+      ? { cx: 50, cy: 50 }
+      : resolveGradientPosition(layer.at, 100, 100);
+  return {
+    kind: layer.kind,
+    repeating: layer.repeating,
+    angle:
+      layer.kind === "linear"
+        ? Math.round(layer.angle)
+        : layer.kind === "conic"
+          ? Math.round(layer.from)
+          : DEFAULT_GRADIENT_MODEL.angle,
+    shape: layer.kind === "radial" ? layer.shape : "ellipse",
+    atX: Math.round(at.cx),
+    atY: Math.round(at.cy),
+    stops,
+  };
+}
+
+// The builder only edits single-gradient values; anything layered stays in
+// the text editor so the builder never drops layers it can't show.
+function singleGradientModel(css: string): GradientModel | null {
+  return splitTopLevel(css, ",").length === 1
+    ? gradientModelFromCss(css)
+    : null;
+}
+
+// Re-reading CSS numbers the stops s0, s1, … in position order; when the
+// count is unchanged the builder's own ids carry over so its selection holds.
+function keepStopIds(prev: GradientModel, next: GradientModel): GradientModel {
+  if (prev.stops.length !== next.stops.length) return next;
+  const ids = [...prev.stops].sort((a, b) => a.pos - b.pos).map((s) => s.id);
+  return { ...next, stops: next.stops.map((s, i) => ({ ...s, id: ids[i] })) };
+}
+
+function gradientModelToCss(m: GradientModel): string {
+  const stops = [...m.stops]
+    .sort((a, b) => a.pos - b.pos)
+    .map((st) => {
+      const { r, g, b } = hexToRgbTriplet(st.color);
+      const c =
+        st.alpha >= 1
+          ? st.color
+          : `rgba(${r}, ${g}, ${b}, ${Math.round(st.alpha * 100) / 100})`;
+      return `${c} ${Math.round(st.pos * 10) / 10}%`;
+    })
+    .join(", ");
+  const fn = `${m.repeating ? "repeating-" : ""}${m.kind}-gradient`;
+  const at = `at ${m.atX}% ${m.atY}%`;
+  if (m.kind === "linear") return `${fn}(${m.angle}deg, ${stops})`;
+  if (m.kind === "radial") return `${fn}(${m.shape} ${at}, ${stops})`;
+  return `${fn}(from ${m.angle}deg ${at}, ${stops})`;
+}
+
+// Fills in missing stop positions the way CSS does and converts them to
+// fractions of the gradient line.
+function resolveGradientStops(
+  stops: GradientStop[],
+  lineLength: number,
+): Array<{ color: string; offset: number }> {
+  const toFrac = (p: CssLength) =>
+    p.unit === "%"
+      ? p.value / 100
+      : p.unit === "deg"
+        ? p.value / 360
+        : lineLength > 0
+          ? p.value / lineLength
+          : 0;
+  const offs: Array<number | undefined> = stops.map((s) =>
+    s.pos ? toFrac(s.pos) : undefined,
+  );
+  if (offs[0] === undefined) offs[0] = 0;
+  if (offs[offs.length - 1] === undefined) offs[offs.length - 1] = 1;
+  let max = -Infinity;
+  for (let i = 0; i < offs.length; i++) {
+    if (offs[i] !== undefined) {
+      max = Math.max(max, offs[i]!);
+      offs[i] = max;
+    }
+  }
+  for (let i = 1; i < offs.length; i++) {
+    if (offs[i] !== undefined) continue;
+    let j = i;
+    while (offs[j] === undefined) j++;
+    const a = offs[i - 1]!;
+    const b = offs[j]!;
+    for (let k = i; k < j; k++)
+      offs[k] = a + ((b - a) * (k - i + 1)) / (j - i + 1);
+  }
+  return stops.map((s, i) => ({ color: s.color, offset: offs[i]! }));
+}
+
+function parseCanvasColor(ctx: CanvasRenderingContext2D, color: string) {
+  ctx.fillStyle = "#000000";
+  ctx.fillStyle = color;
+  const v = String(ctx.fillStyle);
+  const hex = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(v);
+  if (hex) {
+    return [
+      parseInt(hex[1], 16),
+      parseInt(hex[2], 16),
+      parseInt(hex[3], 16),
+      1,
+    ];
+  }
+  const rgba = /^rgba?\(([^)]+)\)$/i.exec(v);
+  if (!rgba) return null;
+  const [r, g, b, a = "1"] = rgba[1].split(",").map((x) => x.trim());
+  return [Number(r), Number(g), Number(b), Number(a)];
+}
+
+// Maps resolved stops (which may sit outside 0..1, or repeat) onto canvas
+// color stops, interpolating the colours at the 0 and 1 boundaries.
+function expandGradientStops(
+  ctx: CanvasRenderingContext2D,
+  stops: Array<{ color: string; offset: number }>,
+  repeating: boolean,
+): Array<{ color: string; offset: number }> {
+  const first = stops[0].offset;
+  const period = stops[stops.length - 1].offset - first;
+  if (repeating && period <= 0) {
+    const c = stops[stops.length - 1].color;
+    return [
+      { color: c, offset: 0 },
+      { color: c, offset: 1 },
+    ];
+  }
+  const rgba = stops.map((s) => parseCanvasColor(ctx, s.color));
+  const colorAt = (t: number) => {
+    if (repeating) t = first + ((((t - first) % period) + period) % period);
+    if (t <= stops[0].offset) return stops[0].color;
+    for (let i = 1; i < stops.length; i++) {
+      if (t > stops[i].offset) continue;
+      const a = rgba[i - 1];
+      const b = rgba[i];
+      const span = stops[i].offset - stops[i - 1].offset;
+      if (!a || !b || span <= 0) return stops[i].color;
+      const f = (t - stops[i - 1].offset) / span;
+      // Premultiplied, like CSS, so fades to transparent don't darken.
+      const alpha = a[3] + (b[3] - a[3]) * f;
+      const ch = (k: number) =>
+        alpha > 0
+          ? Math.round((a[k] * a[3] + (b[k] * b[3] - a[k] * a[3]) * f) / alpha)
+          : 0;
+      return `rgba(${ch(0)},${ch(1)},${ch(2)},${alpha.toFixed(3)})`;
+    }
+    return stops[stops.length - 1].color;
+  };
+  const out: Array<{ color: string; offset: number }> = [
+    { color: colorAt(0), offset: 0 },
+  ];
+  const kMin = repeating ? Math.floor(-first / period) - 1 : 0;
+  const kMax = repeating ? Math.ceil((1 - first) / period) + 1 : 0;
+  for (let k = kMin; k <= kMax; k++) {
+    for (const s of stops) {
+      const o = s.offset + k * (repeating ? period : 0);
+      if (o > 0 && o < 1) out.push({ color: s.color, offset: o });
+    }
+  }
+  out.push({ color: colorAt(1), offset: 1 });
+  return out;
+}
+
+function resolveGradientPosition(at: string[], W: number, H: number) {
+  let [xt = "center", yt = "center"] = at.map((t) => t.toLowerCase());
+  if (/^(top|bottom)$/.test(xt) || /^(left|right)$/.test(yt)) {
+    [xt, yt] = [yt, xt];
+  }
+  const resolve = (t: string, size: number) => {
+    if (t === "left" || t === "top") return 0;
+    if (t === "right" || t === "bottom") return size;
+    if (t === "center") return size / 2;
+    const len = parseCssLength(t);
+    if (!len) return size / 2;
+    return len.unit === "%" ? (len.value / 100) * size : len.value;
+  };
+  return { cx: resolve(xt, W), cy: resolve(yt, H) };
+}
+
+function radialGradientRadii(
+  layer: Extract<GradientLayer, { kind: "radial" }>,
+  cx: number,
+  cy: number,
+  W: number,
+  H: number,
+) {
+  const sideX = [cx, W - cx].map(Math.abs);
+  const sideY = [cy, H - cy].map(Math.abs);
+  if (Array.isArray(layer.size)) {
+    const [a, b = a] = layer.size;
+    const rx = a.unit === "%" ? (a.value / 100) * W : a.value;
+    const ry = b.unit === "%" ? (b.value / 100) * H : b.value;
+    return layer.shape === "circle" ? { rx, ry: rx } : { rx, ry };
+  }
+  const pick = layer.size.startsWith("closest") ? Math.min : Math.max;
+  const fx = pick(...sideX);
+  const fy = pick(...sideY);
+  const corner = layer.size.endsWith("corner");
+  if (layer.shape === "circle") {
+    const r = corner
+      ? pick(...sideX.flatMap((x) => sideY.map((y) => Math.hypot(x, y))))
+      : pick(fx, fy);
+    return { rx: r, ry: r };
+  }
+  return corner
+    ? { rx: fx * Math.SQRT2, ry: fy * Math.SQRT2 }
+    : { rx: fx, ry: fy };
+}
+
+function drawGradientLayer(
+  ctx: CanvasRenderingContext2D,
+  layer: GradientLayer,
+  W: number,
+  H: number,
+) {
+  if (layer.kind === "color") {
+    ctx.fillStyle = layer.color;
+    ctx.fillRect(0, 0, W, H);
+    return;
+  }
+  const addStops = (g: CanvasGradient, lineLength: number) => {
+    const stops = expandGradientStops(
+      ctx,
+      resolveGradientStops(layer.stops, lineLength),
+      layer.repeating,
+    );
+    for (const s of stops) {
+      try {
+        g.addColorStop(s.offset, s.color);
+      } catch {}
+    }
+    return g;
+  };
+
+  if (layer.kind === "linear") {
+    let dx: number, dy: number;
+    if (layer.to) {
+      // Corner keywords: the line is perpendicular to the other diagonal.
+      const n = Math.hypot(W, H) || 1;
+      dx = (layer.to.x * H) / n;
+      dy = (layer.to.y * W) / n;
+    } else {
+      const a = (layer.angle * Math.PI) / 180;
+      dx = Math.sin(a);
+      dy = -Math.cos(a);
+    }
+    const len = Math.abs(W * dx) + Math.abs(H * dy);
+    const g = ctx.createLinearGradient(
+      W / 2 - (dx * len) / 2,
+      H / 2 - (dy * len) / 2,
+      W / 2 + (dx * len) / 2,
+      H / 2 + (dy * len) / 2,
+    );
+    ctx.fillStyle = addStops(g, len);
+    ctx.fillRect(0, 0, W, H);
+    return;
+  }
+
+  const { cx, cy } = resolveGradientPosition(layer.at, W, H);
+
+  if (layer.kind === "radial") {
+    const { rx, ry } = radialGradientRadii(layer, cx, cy, W, H);
+    if (rx <= 0 || ry <= 0) return;
+    const sy = ry / rx;
+    ctx.save();
+    ctx.translate(cx, cy);
+    ctx.scale(1, sy);
+    ctx.fillStyle = addStops(ctx.createRadialGradient(0, 0, 0, 0, 0, rx), rx);
+    ctx.fillRect(-cx, -cy / sy, W, H / sy);
+    ctx.restore();
+    return;
+  }
+
+  if (typeof ctx.createConicGradient !== "function") {
+    ctx.fillStyle = layer.stops[0].color;
+    ctx.fillRect(0, 0, W, H);
+    return;
+  }
+  const g = ctx.createConicGradient(
+    ((layer.from - 90) * Math.PI) / 180,
+    cx,
+    cy,
+  );
+  ctx.fillStyle = addStops(g, 0);
+  ctx.fillRect(0, 0, W, H);
+}
+
+// Canvas rendition of a CSS background-image value. Layers are painted
+// bottom-up so the first layer ends up on top, as in CSS.
+function drawGradientBackground(
+  ctx: CanvasRenderingContext2D,
+  css: string,
+  W: number,
+  H: number,
+) {
+  const layers = parseCssBackground(css);
+  if (!layers.length) {
+    ctx.fillStyle = extractColors(css)[0] || "black";
+    ctx.fillRect(0, 0, W, H);
+    return;
+  }
+  for (const layer of [...layers].reverse()) {
+    drawGradientLayer(ctx, layer, W, H);
+  }
+}
+
+// ================================================================================================
+// CONTRAST ANALYSIS
+// ================================================================================================
+
+type ContrastRegion = {
+  key: string;
+  label: string;
+  kind: "page" | "card";
+  rect: { x: number; y: number; w: number; h: number };
+};
+
+// sRGB triplets sampled from the rendered background behind one element,
+// before the overlay and card panel are composited on top.
+type ContrastSamples = ContrastRegion & { samples: Uint8ClampedArray };
+
+type ElementContrast = {
+  key: string;
+  label: string;
+  kind: "page" | "card";
+  text: "white" | "black";
+  min: number;
+  p10: number;
+  median: number;
+  passAA: boolean;
+  passAAA: boolean;
+};
+
+const MAX_SAMPLES_PER_REGION = 4096;
+
+function srgbToLinear(c: number) {
+  const s = c / 255;
+  return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+}
+
+function relativeLuminance(r: number, g: number, b: number) {
+  return (
+    0.2126 * srgbToLinear(r) +
+    0.7152 * srgbToLinear(g) +
+    0.0722 * srgbToLinear(b)
+  );
+}
+
+function contrastRatio(L1: number, L2: number) {
+  const hi = Math.max(L1, L2);
+  const lo = Math.min(L1, L2);
+  return (hi + 0.05) / (lo + 0.05);
+}
+
+function percentile(sorted: number[], p: number) {
+  if (!sorted.length) return 0;
+  const i = Math.min(sorted.length - 1, Math.floor(p * sorted.length));
+  return sorted[i];
+}
+
+function hexToRgbTriplet(hex: string) {
+  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+  return result
+    ? {
+        r: parseInt(result[1], 16),
+        g: parseInt(result[2], 16),
+        b: parseInt(result[3], 16),
+      }
+    : { r: 0, g: 0, b: 0 };
+}
+
+function sampleRegion(
+  data: ImageData,
+  rect: ContrastRegion["rect"],
+): Uint8ClampedArray {
+  const x0 = Math.max(0, Math.floor(rect.x));
+  const y0 = Math.max(0, Math.floor(rect.y));
+  const x1 = Math.min(data.width, Math.ceil(rect.x + rect.w));
+  const y1 = Math.min(data.height, Math.ceil(rect.y + rect.h));
+  if (x1 <= x0 || y1 <= y0) return new Uint8ClampedArray(0);
+  const step = Math.max(
+    1,
+    Math.ceil(Math.sqrt(((x1 - x0) * (y1 - y0)) / MAX_SAMPLES_PER_REGION)),
+  );
+  const out: number[] = [];
+  for (let y = y0; y < y1; y += step) {
+    for (let x = x0; x < x1; x += step) {
+      const i = (y * data.width + x) * 4;
+      out.push(data.data[i], data.data[i + 1], data.data[i + 2]);
+    }
+  }
+  return Uint8ClampedArray.from(out);
+}
+
+// Renders the background offscreen at the simulated frame size and pulls the
+// pixels behind each region. Card regions are read from a copy blurred by the
+// card backdrop blur. Returns null when the canvas is tainted (cross-origin).
+async function sampleContrastRegions(opts: {
+  item?: BGItem;
+  fit: "cover" | "contain" | "auto";
+  repeat: boolean;
+  pos: string;
+  blur: number;
+  cardBlur: number;
+  width: number;
+  height: number;
+  regions: ContrastRegion[];
+}): Promise<ContrastSamples[] | null> {
+  const { item, fit, repeat, pos, blur, cardBlur, width, height, regions } =
+    opts;
+  if (!item || width < 1 || height < 1) return null;
+  try {
+    const canvas = await renderBackgroundCanvas(
+      item,
+      { fit, repeat, pos, blur },
+      width,
+      height,
+    );
+    const ctx = canvas.getContext("2d")!;
+    const page = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    let card = page;
+    if (cardBlur > 0 && regions.some((r) => r.kind === "card")) {
+      const blurred = document.createElement("canvas");
+      blurred.width = canvas.width;
+      blurred.height = canvas.height;
+      const bctx = blurred.getContext("2d")!;
+      bctx.filter = `blur(${cardBlur}px)`;
+      bctx.drawImage(canvas, 0, 0);
+      card = bctx.getImageData(0, 0, blurred.width, blurred.height);
+    }
+    return regions.map((r) => ({
+      ...r,
+      samples: sampleRegion(r.kind === "card" ? card : page, r.rect),
+    }));
+  } catch {
+    return null;
+  }
+}
+
+// Composites the overlay (and card panel, for card regions) over the sampled
+// pixels and returns the WCAG ratio distribution for the given text colour.
+function scoreContrastSamples(
+  region: ContrastSamples,
+  opts: {
+    overlay: number;
+    text: "white" | "black";
+    cardColor?: string;
+    cardOpacity?: number;
+  },
+): ElementContrast {
+  const { overlay, text } = opts;
+  const keep = 1 - Math.max(0, Math.min(1, overlay));
+  const a =
+    region.kind === "card"
+      ? Math.max(0, Math.min(1, opts.cardOpacity ?? 0))
+      : 0;
+  const card = hexToRgbTriplet(opts.cardColor ?? "#000000");
+  const Ltext = text === "white" ? 1 : 0;
+  const ratios: number[] = [];
+  const s = region.samples;
+  for (let i = 0; i + 2 < s.length; i += 3) {
+    const r = a * card.r + (1 - a) * s[i] * keep;
+    const g = a * card.g + (1 - a) * s[i + 1] * keep;
+    const b = a * card.b + (1 - a) * s[i + 2] * keep;
+    ratios.push(contrastRatio(Ltext, relativeLuminance(r, g, b)));
+  }
+  ratios.sort((x, y) => x - y);
+  const min = ratios.length ? ratios[0] : 0;
+  return {
+    key: region.key,
+    label: region.label,
+    kind: region.kind,
+    text,
+    min,
+    p10: percentile(ratios, 0.1),
+    median: percentile(ratios, 0.5),
+    passAA: min >= 4.5,
+    passAAA: min >= 7.0,
+  };
+}
+
+// Worst case across elements, in the same shape as the overlay estimates.
+function summarizeContrast(elements: ElementContrast[]) {
+  if (!elements.length) return null;
+  const ratio = Math.min(...elements.map((e) => e.min));
+  return { ratio, passAA: ratio >= 4.5, passAAA: ratio >= 7.0 };
+}
+
+type WcagTarget = "AA" | "AAA" | "AA-large";
+
+const WCAG_TARGETS: Record<WcagTarget, number> = {
+  AA: 4.5,
+  AAA: 7.0,
+  "AA-large": 3.0,
+};
+
+const SOLVER_SAMPLES_PER_REGION = 512;
+
+function thinSamples(region: ContrastSamples): ContrastSamples {
+  const n = region.samples.length / 3;
+  if (n <= SOLVER_SAMPLES_PER_REGION) return region;
+  const step = Math.ceil(n / SOLVER_SAMPLES_PER_REGION);
+  const out: number[] = [];
+  for (let i = 0; i < n; i += step) {
+    out.push(
+      region.samples[i * 3],
+      region.samples[i * 3 + 1],
+      region.samples[i * 3 + 2],
+    );
+  }
+  return { ...region, samples: Uint8ClampedArray.from(out) };
+}
+
+// Worst-case page and card ratios for a candidate setting. Uses the sampled
+// background when available and the overlay estimates otherwise, so the
+// solver agrees with whatever the meter is showing.
+function contrastAt(
+  samples: ContrastSamples[] | null,
+  overlay: number,
+  cardOpacity: number,
+  cardColor: string,
+) {
+  const text = chooseTextColorForCard(overlay, cardOpacity, cardColor).color;
+  const score = (kind: "page" | "card") =>
+    summarizeContrast(
+      (samples ?? [])
+        .filter((r) => r.kind === kind)
+        .map((r) =>
+          scoreContrastSamples(r, {
+            overlay,
+            text: kind === "page" ? "white" : text,
+            cardColor,
+            cardOpacity,
+          }),
+        ),
+    );
+  return {
+    page: (score("page") ?? estimateMinContrastFromOverlay(overlay)).ratio,
+    card: (
+      score("card") ?? estimateCardContrast(overlay, cardOpacity, cardColor)
+    ).ratio,
+  };
+}
+
+// Smallest overlay that lets the page text pass, then the lightest card panel
+// (current colour first, then black and white) that lets the card text pass.
+function solveContrastSettings(opts: {
+  target: WcagTarget;
+  samples: ContrastSamples[] | null;
+  cardColor: string;
+}) {
+  const min = WCAG_TARGETS[opts.target];
+  const samples = opts.samples?.map(thinSamples) ?? null;
+  let overlay = 0.95;
+  let pagePass = false;
+  for (let i = 0; i <= 95; i++) {
+    if (contrastAt(samples, i / 100, 0, "#000000").page >= min) {
+      overlay = i / 100;
+      pagePass = true;
+      break;
+    }
+  }
+  const colors = Array.from(
+    new Set([opts.cardColor.toLowerCase(), "#000000", "#ffffff"]),
+  );
+  let best = { cardColor: opts.cardColor, cardOpacity: 1, cardPass: false };
+  for (const color of colors) {
+    for (let i = 0; i <= 100; i++) {
+      if (i / 100 >= best.cardOpacity && best.cardPass) break;
+      if (contrastAt(samples, overlay, i / 100, color).card >= min) {
+        best = { cardColor: color, cardOpacity: i / 100, cardPass: true };
+        break;
+      }
+    }
+  }
+  return { overlay, pagePass, ...best };
+}
+
+const HEATMAP_CELL = 16;
+
+const HEATMAP_BANDS = [
+  { min: 7.0, label: "AAA ≥ 7", color: [34, 197, 94] },
+  { min: 4.5, label: "AA ≥ 4.5", color: [234, 179, 8] },
+  { min: 3.0, label: "Large ≥ 3", color: [249, 115, 22] },
+  { min: 0, label: "Fail < 3", color: [239, 68, 68] },
+] as const;
+
+function heatmapBand(ratio: number) {
+  return HEATMAP_BANDS.find((b) => ratio >= b.min) ?? HEATMAP_BANDS[3];
+}
+
+// Colours each HEATMAP_CELL square of the background by the worst contrast
+// the given text colour reaches inside it once the overlay is applied.
+function renderContrastHeatmap(
+  base: ImageData,
+  overlay: number,
+  text: "white" | "black",
+): string {
+  const canvas = document.createElement("canvas");
+  canvas.width = base.width;
+  canvas.height = base.height;
+  const ctx = canvas.getContext("2d")!;
+  const keep = 1 - Math.max(0, Math.min(1, overlay));
+  const Ltext = text === "white" ? 1 : 0;
+  const step = 4;
+  for (let cy = 0; cy < base.height; cy += HEATMAP_CELL) {
+    for (let cx = 0; cx < base.width; cx += HEATMAP_CELL) {
+      let worst = Infinity;
+      const yEnd = Math.min(base.height, cy + HEATMAP_CELL);
+      const xEnd = Math.min(base.width, cx + HEATMAP_CELL);
+      for (let y = cy; y < yEnd; y += step) {
+        for (let x = cx; x < xEnd; x += step) {
+          const i = (y * base.width + x) * 4;
+          const L = relativeLuminance(
+            base.data[i] * keep,
+            base.data[i + 1] * keep,
+            base.data[i + 2] * keep,
+          );
+          worst = Math.min(worst, contrastRatio(Ltext, L));
+        }
+      }
+      const [r, g, b] = heatmapBand(worst).color;
+      ctx.fillStyle = `rgba(${r},${g},${b},0.45)`;
+      ctx.fillRect(cx, cy, HEATMAP_CELL, HEATMAP_CELL);
+    }
+  }
+  return canvas.toDataURL("image/png");
+}
+
+// Element rects in the frame's own CSS pixels (undoing any transform scale on
+// the frame), clipped to the frame. Elements scrolled out of view are dropped.
+function measureContrastRegions(
+  frame: HTMLElement,
+  targets: Array<Omit<ContrastRegion, "rect"> & { el: HTMLElement | null }>,
+): ContrastRegion[] {
+  const fr = frame.getBoundingClientRect();
+  const scale = frame.offsetWidth ? fr.width / frame.offsetWidth : 1;
+  const W = frame.clientWidth;
+  const H = frame.clientHeight;
+  const out: ContrastRegion[] = [];
+  for (const { el, ...t } of targets) {
+    if (!el) continue;
+    const r = el.getBoundingClientRect();
+    const x0 = Math.max(0, (r.left - fr.left) / scale);
+    const y0 = Math.max(0, (r.top - fr.top) / scale);
+    const x1 = Math.min(W, (r.right - fr.left) / scale);
+    const y1 = Math.min(H, (r.bottom - fr.top) / scale);
+    if (x1 - x0 < 1 || y1 - y0 < 1) continue;
+    out.push({ ...t, rect: { x: x0, y: y0, w: x1 - x0, h: y1 - y0 } });
+  }
+  return out;
+}
+
+function generateRandomCards(count: number) {
+  const cardTitles = [
+    "AI Revolution",
+    "Neural Networks",
+    "Machine Learning",
+    "Deep Learning",
+    "Computer Vision",
+    "Natural Language",
+    "Robotics",
+    "Automation",
+    "Data Science",
+    "Predictive Analytics",
+    "Pattern Recognition",
+    "Algorithm Design",
+    "Quantum Computing",
+    "Edge Computing",
+    "Cloud AI",
+    "AI Ethics",
+    "Autonomous Systems",
+    "Smart Cities",
+    "Digital Transformation",
+    "Tech Innovation",
+    "Future of Work",
+    "Human-AI Collaboration",
+    "AI Safety",
+    "Machine Consciousness",
+  ];
+  const cardContents = [
+    "Explore cutting-edge developments in artificial intelligence and their impact on society.",
+    "Discover how machine learning algorithms are transforming industries worldwide.",
+    "Learn about the latest breakthroughs in neural network architectures and training methods.",
+    "Understand the principles behind deep learning and its applications in real-world scenarios.",
+    "Investigate computer vision techniques that enable machines to interpret visual information.",
+    "Dive into natural language processing and how AI understands human communication.",
+  ];
+  const cards = [];
+  for (let i = 0; i < count; i++) {
+    cards.push({
+      id: uid(),
+      title: cardTitles[Math.floor(Math.random() * cardTitles.length)],
+      content: cardContents[Math.floor(Math.random() * cardContents.length)],
+    });
+  }
+  return cards;
+}
+
+// ================================================================================================
+// MAIN COMPONENT
 // ================================================================================================
 
 export default function MAI_Background_Chooser_Demo() {
   // State
-  const [items, setItems] = useState<BGItem[]>(() => {
-    try {
-      const raw = localStorage.getItem(LS_KEY);
-      if (raw) {
-        const parsed = JSON.parse(raw) as ExportState;
-        return normalizeItems(parsed.items || PRESETS);
-      }
-    } catch {}
-    return normalizeItems(PRESETS);
-  });
-  const [index, setIndex] = useState<number>(() => {
-    try {
-      const raw = localStorage.getItem(LS_KEY);
-      if (raw) {
-        const p = JSON.parse(raw) as ExportState;
-        return Math.min(
-          Math.max(0, p.index || 0),
-          Math.max(0, (p.items || PRESETS).length - 1),
-        );
-      }
-    } catch {}
-    return 0;
-  });
-  const [fit, setFit] = useState<"cover" | "contain" | "auto">(() => {
-    try {
-      const p = JSON.parse(localStorage.getItem(LS_KEY) || "{}") as ExportState;
-      return (p.fit || "cover") as any;
-    } catch {
-      return "cover" as const;
-    }
-  });
-  const [repeat, setRepeat] = useState<boolean>(() => {
-    try {
-      return !!(JSON.parse(localStorage.getItem(LS_KEY) || "{}") as ExportState)
-        .repeat;
-    } catch {
-      return false;
-    }
-  });
-  const [pos, setPos] = useState<string>(() => {
-    try {
-      return (
-        (JSON.parse(localStorage.getItem(LS_KEY) || "{}") as ExportState).pos ||
-        "center center"
-      );
-    } catch {
-      return "center center";
-    }
-  });
-  const [overlay, setOverlay] = useState<number>(() => {
-    try {
-      const p = JSON.parse(localStorage.getItem(LS_KEY) || "{}") as ExportState;
-      return typeof p.overlay === "number" ? p.overlay : 0.35;
-    } catch {
-      return 0.35;
-    }
-  });
-  const [blur, setBlur] = useState<number>(() => {
-    try {
-      const p = JSON.parse(localStorage.getItem(LS_KEY) || "{}") as ExportState;
-      return typeof p.blur === "number" ? p.blur : 0;
-    } catch {
-      return 0;
-    }
-  });
-  const [device, setDevice] = useState<DeviceKey>(() => {
-    try {
-      const p = JSON.parse(localStorage.getItem(LS_KEY) || "{}") as ExportState;
-      let deviceKey = p.device;
-      if (deviceKey === "mobile-portrait" || deviceKey === "mobile-landscape") {
-        deviceKey = "mobile";
-      }
-      return (deviceKey || "fluid") as DeviceKey;
-    } catch {
-      return "fluid";
-    }
-  });
-  const [rotate, setRotate] = useState<boolean>(() => {
-    try {
-      return !!(JSON.parse(localStorage.getItem(LS_KEY) || "{}") as ExportState)
-        .rotate;
-    } catch {
-      return false;
-    }
-  });
-  const [cardOpacity, setCardOpacity] = useState<number>(() => {
-    try {
-      const p = JSON.parse(localStorage.getItem(LS_KEY) || "{}") as ExportState;
-      return typeof p.cardOpacity === "number" ? p.cardOpacity : 0.08;
-    } catch {
-      return 0.08;
-    }
-  });
-  const [darkMode, setDarkMode] = useState<boolean>(() => {
-    try {
-      return !!(JSON.parse(localStorage.getItem(LS_KEY) || "{}") as ExportState)
-        .darkMode;
-    } catch {
-      return false;
-    }
-  });
-  const [sidebarCollapsed, setSidebarCollapsed] = useState<boolean>(() => {
-    try {
-      return !!(JSON.parse(localStorage.getItem(LS_KEY) || "{}") as ExportState)
-        .sidebarCollapsed;
-    } catch {
-      return false;
-    }
-  });
-  const [cardColor, setCardColor] = useState<string>(() => {
-    try {
-      const p = JSON.parse(localStorage.getItem(LS_KEY) || "{}") as ExportState;
-      return p.cardColor || (p.darkMode ? "#000000" : "#ffffff");
-    } catch {
-      return "#000000";
-    }
-  });
-  const [cardCount, setCardCount] = useState<number>(3);
+  const [stored] = useState(loadInitialState);
+  const [items, setItems] = useState<BGItem[]>(() =>
+    normalizeItems(stored.state.items),
+  );
+  const [index, setIndex] = useState<number>(stored.state.index);
+  const [fit, setFit] = useState<"cover" | "contain" | "auto">(
+    stored.state.fit,
+  );
+  const [repeat, setRepeat] = useState<boolean>(stored.state.repeat);
+  const [pos, setPos] = useState<string>(stored.state.pos);
+  const [overlay, setOverlay] = useState<number>(stored.state.overlay);
+  const [blur, setBlur] = useState<number>(stored.state.blur);
+  const [device, setDevice] = useState<DeviceKey>(stored.state.device);
+  const [rotate, setRotate] = useState<boolean>(stored.state.rotate);
+  const [cardOpacity, setCardOpacity] = useState<number>(
+    stored.state.cardOpacity,
+  );
+  const [sidebarCollapsed, setSidebarCollapsed] = useState<boolean>(
+    stored.state.sidebarCollapsed,
+  );
+  const [cardColor, setCardColor] = useState<string>(stored.state.cardColor);
+  const [cardCount, setCardCount] = useState<number>(stored.state.cardCount);
   const [generatedCards, setGeneratedCards] = useState<
     Array<{ id: string; title: string; content: string }>
-  >(() => generateRandomCards(6));
+  >(stored.state.generatedCards);
+  const [looks, setLooks] = useState<Look[]>(stored.state.looks);
+  const [customDevices, setCustomDevices] = useState<DeviceProfile[]>(
+    stored.state.customDevices,
+  );
+  const [deviceDraft, setDeviceDraft] = useState<DeviceProfile | null>(null);
+  const [renamingLook, setRenamingLook] = useState<string | null>(null);
+  const [undoHistory, setUndoHistory] = useState<{
+    past: HistoryEntry[];
+    future: HistoryEntry[];
+  }>({ past: [], future: [] });
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [reportOpen, setReportOpen] = useState(false);
+  const [encodeSpec, setEncodeSpec] = useState({
+    widths: "640, 1280, 1920",
+    mimes: ENCODE_FORMATS.map((f) => f.mime),
+    quality: 0.8,
+  });
+  const [encoded, setEncoded] = useState<{
+    itemId: string;
+    original: number;
+    results: Derivative[];
+    preview: number | null;
+  } | null>(null);
+  const [encodeBusy, setEncodeBusy] = useState(false);
+  const [codeOpen, setCodeOpen] = useState(false);
+  const [codeTarget, setCodeTarget] = useState<CodeTarget>("css");
+  const [assetPath, setAssetPath] = useState("/images/");
+  const [imageMeta, setImageMeta] = useState<Record<string, ImageMeta | null>>(
+    {},
+  );
 
   const [grid, setGrid] = useState(false);
-  const [slotA, setSlotA] = useState<number | null>(null);
-  const [slotB, setSlotB] = useState<number | null>(null);
-  const [showB, setShowB] = useState(false);
+  const [slotA, setSlotA] = useState<string | null>(null);
+  const [slotB, setSlotB] = useState<string | null>(null);
+  const [compareOpen, setCompareOpen] = useState(false);
+  const [compareSplit, setCompareSplit] = useState(0.5);
+  const [compareFx, setCompareFx] = useState<{
+    A: CompareFx | null;
+    B: CompareFx | null;
+  }>({ A: null, B: null });
   const [helpOpen, setHelpOpen] = useState(false);
   const [meterOpen, setMeterOpen] = useState(false);
   const [toast, setToast] = useState<string | null>(null);
+  const [contrastSamples, setContrastSamples] = useState<
+    ContrastSamples[] | null
+  >(null);
+  const [layoutTick, setLayoutTick] = useState(0);
+  const [frameSize, setFrameSize] = useState({ w: 1440, h: 900 });
+  const [multiIds, setMultiIds] = useState<string[]>([]);
+  const [multiOpen, setMultiOpen] = useState(false);
+  const [multiArea, setMultiArea] = useState({ w: 0, h: 0 });
+  const [zoom, setZoom] = useState<"fit" | number>("fit");
+  const [sweepRange, setSweepRange] = useState({
+    from: 320,
+    to: 1920,
+    step: 80,
+  });
+  const [sweepSize, setSweepSize] = useState<{ w: number; h: number } | null>(
+    null,
+  );
+  const [sweepRunning, setSweepRunning] = useState(false);
+  const [sweepFrames, setSweepFrames] = useState<SweepFrame[] | null>(null);
+  const [viewport, setViewport] = useState({ w: 0, h: 0 });
+  const [multiSamples, setMultiSamples] = useState<
+    Record<string, ContrastSamples[] | null>
+  >({});
+  const [heatmapOpen, setHeatmapOpen] = useState(false);
+  const [heatmapText, setHeatmapText] = useState<"white" | "black">("white");
+  const [heatmapBase, setHeatmapBase] = useState<ImageData | null>(null);
+  const [fixTarget, setFixTarget] = useState<WcagTarget>("AA");
+  // 0 exports at the device profile's pixel ratio.
+  const [exportScale, setExportScale] = useState<0 | 1 | 2 | 3>(1);
+  const [exportHeatmap, setExportHeatmap] = useState(false);
+  const [chromeOpts, setChromeOpts] = useState<ChromeOptions>({
+    system: false,
+    urlBar: false,
+    keyboard: false,
+  });
+  const [exportChrome, setExportChrome] = useState(false);
+  const [chromeHidden, setChromeHidden] = useState<string[]>([]);
+  const [focusPicking, setFocusPicking] = useState(false);
+  const [focusNatural, setFocusNatural] = useState<{
+    w: number;
+    h: number;
+  } | null>(null);
+  const [sheetSource, setSheetSource] = useState<"favorites" | "grid" | "all">(
+    "favorites",
+  );
+  const [sheetFormat, setSheetFormat] = useState<"png" | "pdf">("png");
+  const [sheetBusy, setSheetBusy] = useState(false);
+  const [cssDraft, setCssDraft] = useState("");
+  const [cssDraftName, setCssDraftName] = useState("");
+  const [builderModel, setBuilderModel] = useState<GradientModel | null>(null);
+  // The saved custom background the draft was loaded from, updated on save.
+  const [cssEditId, setCssEditId] = useState<string | null>(null);
+  const [saveFailed, setSaveFailed] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{
+    fileName: string;
+    state: ExportState;
+    report: MigrationReport;
+  } | null>(null);
+  const [storageUsage, setStorageUsage] = useState<{
+    usage: number;
+    quota: number;
+  } | null>(null);
+
+  const hydratingRef = useRef(new Set<string>());
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const lastSnapshotRef = useRef<ExportState | null>(null);
+  const restoringRef = useRef(false);
+  const liveBlobsRef = useRef(new Set<string>());
+  const [tabId] = useState(currentTabId);
+  const liveUrlsRef = useRef(new Set<string>());
+  const frameRef = useRef<HTMLDivElement>(null);
+  const exportPngRef = useRef<() => void>(() => {});
+  const heroRef = useRef<HTMLHeadingElement>(null);
+  const ctaRef = useRef<HTMLButtonElement>(null);
+  const cardRefs = useRef<Array<HTMLElement | null>>([]);
+  const sampleRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const multiAreaRef = useRef<HTMLDivElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const sweepCancelRef = useRef(false);
+  const multiFrameRef = useRef<HTMLDivElement>(null);
+  const multiHeroRef = useRef<HTMLHeadingElement>(null);
+  const multiCardRefs = useRef<Array<HTMLElement | null>>([]);
+  const multiSampleRef = useRef<HTMLDivElement>(null);
 
   const hasItems = items.length > 0;
   const cur = hasItems ? (items[index] ?? items[0]) : undefined;
 
-  // Auto-save
+  // A valid draft from the custom CSS editor previews in place of the
+  // selected background until it is saved or cleared.
+  const cssDraftCheck = useMemo(
+    () => (cssDraft.trim() ? validateCssBackground(cssDraft) : null),
+    [cssDraft],
+  );
+  const draftItem = useMemo<BGItem | null>(
+    () =>
+      cssDraftCheck?.ok
+        ? {
+            id: "css-draft",
+            name: cssDraftName.trim() || "Custom draft",
+            type: "css",
+            css: normalizeCssBackgroundInput(cssDraft),
+            origin: "custom",
+          }
+        : null,
+    [cssDraftCheck, cssDraft, cssDraftName],
+  );
+  // A previewed derivative from the Optimise panel stands in for the upload.
+  const encodedItem = useMemo<BGItem | null>(() => {
+    const r =
+      encoded && encoded.itemId === cur?.id && encoded.preview !== null
+        ? encoded.results[encoded.preview]
+        : null;
+    return r && cur ? { ...cur, src: r.url } : null;
+  }, [encoded, cur]);
+  const shown = draftItem ?? encodedItem ?? cur;
+  const deviceProfile = findDevice(device, customDevices);
+
+  // Art direction follows the simulated width: the sweep width while one
+  // runs, the (rotated) device width, or the measured fluid frame.
+  const artTarget = artTargetFor(
+    sweepSize?.w ??
+      (typeof deviceProfile.w === "number" &&
+      typeof deviceProfile.h === "number"
+        ? rotate
+          ? deviceProfile.h
+          : deviceProfile.w
+        : frameSize.w),
+  );
+  const artLabel = ART_TARGETS.find((t) => t.key === artTarget)!.label;
+  const artFor = (it: BGItem | undefined) =>
+    resolveArt(it, artTarget, { fit, pos, overlay }, items);
+  const art = artFor(shown);
+  const artOverride = cur && !draftItem ? cur.art?.[artTarget] : undefined;
+
+  // What the focal point picker outlines: the part of the selected image the
+  // built-in devices and the current one show under `cover`.
+  const focusCrops =
+    focusPicking && focusNatural && cur?.type === "image"
+      ? [
+          ...DEVICES.slice(1).map((d) => ({ d, rotate: false })),
+          ...(DEVICES.includes(deviceProfile)
+            ? []
+            : [{ d: deviceProfile, rotate }]),
+        ]
+          .filter(({ d }) => typeof d.w === "number" && typeof d.h === "number")
+          .map(({ d, rotate: r }, i) => {
+            const w = (r ? d.h : d.w) as number;
+            const h = (r ? d.w : d.h) as number;
+            return {
+              key: d.key,
+              label: `${d.label} ${w}×${h}`,
+              color: FOCUS_DEVICE_COLORS[i % FOCUS_DEVICE_COLORS.length],
+              rect: visibleSourceRect(
+                focusNatural.w,
+                focusNatural.h,
+                w,
+                h,
+                "cover",
+                itemPosition(cur, pos),
+              ),
+            };
+          })
+      : [];
+
+  useEffect(
+    () => () => encoded?.results.forEach((r) => URL.revokeObjectURL(r.url)),
+    [encoded?.results],
+  );
+
+  // Re-encodes the selected upload at every chosen width; the largest result
+  // previews in place of the original.
+  async function encodeDerivatives() {
+    if (!cur || cur.type !== "image" || !cur.src || encodeBusy) return;
+    setEncodeBusy(true);
+    const results: Derivative[] = [];
+    try {
+      const img = await loadImage(cur.src);
+      const meta = await readImageMeta(cur);
+      const widths = parseWidths(encodeSpec.widths, img.naturalWidth);
+      // A format the browser can't encode is skipped; the others still run.
+      const skipped: string[] = [];
+      for (const f of ENCODE_FORMATS) {
+        if (!encodeSpec.mimes.includes(f.mime)) continue;
+        const done: Derivative[] = [];
+        try {
+          // The natural width stands in when every requested width is larger.
+          for (const w of widths.length ? widths : [img.naturalWidth]) {
+            done.push(
+              await encodeDerivative(img, w, f.mime, encodeSpec.quality),
+            );
+          }
+          results.push(...done);
+        } catch {
+          done.forEach((r) => URL.revokeObjectURL(r.url));
+          skipped.push(f.label);
+        }
+      }
+      if (!results.length) {
+        throw new Error(
+          skipped.length
+            ? `This browser can't encode ${skipped.join(" or ")}`
+            : "Pick at least one format",
+        );
+      }
+      setEncoded({
+        itemId: cur.id,
+        original: meta?.bytes ?? 0,
+        results,
+        preview: results.length - 1,
+      });
+      if (skipped.length) {
+        setToast(`Skipped ${skipped.join(", ")}: this browser can't encode it`);
+        setTimeout(() => setToast(null), 2500);
+      }
+    } catch (err) {
+      results.forEach((r) => URL.revokeObjectURL(r.url));
+      setToast(err instanceof Error ? err.message : "Encoding failed");
+      setTimeout(() => setToast(null), 2000);
+    } finally {
+      setEncodeBusy(false);
+    }
+  }
+
+  async function downloadDerivatives() {
+    if (!encoded || !cur) return;
+    const base = cur.name.replace(/\.[a-z0-9]+$/i, "");
+    const files = await Promise.all(
+      encoded.results.map(async (r) => ({
+        name: `${base}-${r.width}w.${encodeFormat(r.mime).ext}`,
+        data: new Uint8Array(await r.blob.arrayBuffer()),
+      })),
+    );
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(buildZip(files));
+    a.download = `${base}-responsive.zip`;
+    a.click();
+    URL.revokeObjectURL(a.href);
+  }
+
+  // The code dialog names assets under the chosen path; its preview swaps in
+  // the real upload, or an encoded derivative of the same width.
+  const codeOptions: CodeExportOptions = {
+    item: cur,
+    fit,
+    repeat,
+    pos,
+    overlay,
+    items,
+    derivatives: (it) => {
+      if (encoded?.itemId === it.id) {
+        return ENCODE_FORMATS.map((f) => ({
+          ...f,
+          widths: encoded.results
+            .filter((r) => r.mime === f.mime)
+            .map((r) => r.width),
+        })).filter((d) => d.widths.length);
+      }
+      // Not encoded yet: what an Encode run with the panel's settings writes.
+      const natural = imageMeta[imageMetaKey(it)]?.width;
+      if (it.type !== "image" || !natural) return [];
+      const widths = parseWidths(encodeSpec.widths, natural);
+      return ENCODE_FORMATS.filter((f) =>
+        encodeSpec.mimes.includes(f.mime),
+      ).map((f) => ({ ...f, widths: widths.length ? widths : [natural] }));
+    },
+    url: (it, v) => assetPath + assetFileName(it, v),
+  };
+  const codeText = codeOpen ? buildCodeExport(codeTarget, codeOptions) : "";
+  const codePreview = codeOpen
+    ? codePreviewDoc(codeTarget, {
+        ...codeOptions,
+        url: (it, v) =>
+          (encoded?.itemId === it.id &&
+            encoded.results.find(
+              (r) =>
+                r.width === v?.width && encodeFormat(r.mime).ext === v?.ext,
+            )?.url) ||
+          it.src ||
+          "",
+      })
+    : "";
+
+  // Read file size, type and dimensions of images the report hasn't seen,
+  // one per pass; the code dialog needs the widths too, to cap planned
+  // derivatives.
+  const reportItems = items.filter((x) => x.type === "image");
   useEffect(() => {
-    const state: ExportState = {
+    if (!reportOpen && !codeOpen) return;
+    const next = items.find(
+      (x) => x.type === "image" && !(imageMetaKey(x) in imageMeta),
+    );
+    if (!next) return;
+    let cancelled = false;
+    readImageMeta(next).then((meta) => {
+      if (cancelled) return;
+      setImageMeta((prev) => ({ ...prev, [imageMetaKey(next)]: meta }));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [reportOpen, codeOpen, items, imageMeta]);
+  const reportDevices = [
+    ...DEVICES,
+    ...customDevices,
+    ...(DEVICES.includes(deviceProfile) || customDevices.includes(deviceProfile)
+      ? []
+      : [deviceProfile]),
+  ];
+
+  // Chrome follows the device profile, so it is hidden while a sweep
+  // overrides the frame size.
+  const deviceChrome = useMemo(
+    () =>
+      (chromeOpts.system || chromeOpts.urlBar || chromeOpts.keyboard) &&
+      !sweepSize
+        ? computeDeviceChrome(deviceProfile, rotate, chromeOpts)
+        : null,
+    [deviceProfile, rotate, chromeOpts, sweepSize],
+  );
+
+  function snapshotState(): ExportState {
+    return {
+      version: SCHEMA_VERSION,
       items: normalizeItems(items),
       index,
       fit,
@@ -642,17 +4120,233 @@ export default function MAI_Background_Chooser_Demo() {
       device,
       rotate,
       cardOpacity,
-      darkMode,
       cardColor,
       cardCount,
       generatedCards,
       sidebarCollapsed,
+      looks,
+      customDevices,
     };
-    const id = setTimeout(() => {
-      try {
-        localStorage.setItem(LS_KEY, JSON.stringify(state));
-      } catch {}
-    }, 250);
+  }
+
+  function saveState(state: ExportState) {
+    try {
+      localStorage.setItem(
+        LS_KEY,
+        JSON.stringify({ ...state, items: toStoredItems(state.items) }),
+      );
+      LEGACY_LS_KEYS.forEach((k) => localStorage.removeItem(k));
+      setSaveFailed(false);
+      return true;
+    } catch {
+      setSaveFailed(true);
+      return false;
+    }
+  }
+
+  async function refreshStorageUsage() {
+    try {
+      const est = await navigator.storage?.estimate?.();
+      if (est?.quota) {
+        setStorageUsage({ usage: est.usage ?? 0, quota: est.quota });
+      }
+    } catch {}
+  }
+
+  async function exportJSON() {
+    const state = snapshotState();
+    state.items = await inlineItemBlobs(state.items);
+    downloadBlob("mai-background.json", JSON.stringify(state, null, 2));
+    setToast("Exported JSON");
+    setTimeout(() => setToast(null), 1200);
+  }
+
+  function applyState(st: ExportState) {
+    setItems(normalizeItems(st.items));
+    setIndex(st.index);
+    setFit(st.fit);
+    setRepeat(st.repeat);
+    setPos(st.pos);
+    setOverlay(st.overlay);
+    setBlur(st.blur);
+    setDevice(st.device);
+    setRotate(st.rotate);
+    setCardOpacity(st.cardOpacity);
+    setCardColor(st.cardColor);
+    setCardCount(st.cardCount);
+    setGeneratedCards(st.generatedCards);
+    setLooks(st.looks);
+    setCustomDevices(st.customDevices);
+    setSidebarCollapsed(st.sidebarCollapsed);
+  }
+
+  async function importFile(file: File) {
+    try {
+      const { state, report } = migrateState(JSON.parse(await file.text()));
+      setPendingImport({ fileName: file.name, state, report });
+    } catch {
+      setToast(`${file.name} is not a valid JSON export`);
+      setTimeout(() => setToast(null), 2000);
+    }
+  }
+
+  function replaceSession(st: ExportState) {
+    applyState(st);
+    setToast(`Session replaced (${st.items.length} backgrounds)`);
+    setTimeout(() => setToast(null), 1500);
+  }
+
+  // Adds imported backgrounds the library doesn't already have, matching on
+  // id first and then on content. Art direction that swapped in a skipped
+  // duplicate follows it to the library's copy.
+  async function mergeBackgrounds(incoming: BGItem[]) {
+    const ids = new Set(items.map((x) => x.id));
+    const keys = new Map(
+      await Promise.all(
+        items.map(async (x) => [await itemContentKey(x), x.id] as const),
+      ),
+    );
+    const remap = new Map<string, string>();
+    const adds: BGItem[] = [];
+    for (const x of incoming) {
+      if (ids.has(x.id)) continue;
+      const key = await itemContentKey(x);
+      const same = keys.get(key);
+      if (same) {
+        remap.set(x.id, same);
+        continue;
+      }
+      keys.set(key, x.id);
+      ids.add(x.id);
+      adds.push(x);
+    }
+    if (adds.length) {
+      setItems((prev) =>
+        normalizeItems(pruneArtSources([...prev, ...adds], remap)),
+      );
+    }
+    const skipped = incoming.length - adds.length;
+    setToast(
+      `Merged ${adds.length} background${adds.length === 1 ? "" : "s"}` +
+        (skipped
+          ? ` (${skipped} duplicate${skipped === 1 ? "" : "s"} skipped)`
+          : ""),
+    );
+    setTimeout(() => setToast(null), 1800);
+  }
+
+  useEffect(() => {
+    refreshStorageUsage();
+    // Blobs this tab kept for undo before it was reloaded; the undo history
+    // is gone now. Other tabs' entries are left alone, they may still undo.
+    const referenced = new Set(items.map((x) => x.blobId));
+    const orphans = Object.entries(readReleasedBlobs())
+      .filter(([id, t]) => t === tabId && !referenced.has(id))
+      .map(([id]) => id);
+    writeReleasedBlobs(tabId, []);
+    Promise.all(orphans.map(deleteBlob))
+      .then(refreshStorageUsage)
+      .catch(() => {});
+    const summary = stored.report && describeMigrationReport(stored.report);
+    if (stored.linkNotice !== null) {
+      setToast(
+        stored.linkNotice
+          ? `Opened shared link: ${stored.linkNotice}`
+          : "Opened shared link",
+      );
+      setTimeout(() => setToast(null), 4000);
+    } else if (summary) {
+      setToast(`Restored session: ${summary}`);
+      setTimeout(() => setToast(null), 4000);
+    }
+  }, []);
+
+  // Links pasted into an already open tab only change the hash.
+  useEffect(() => {
+    function onHash() {
+      const link = applyPermalink(snapshotState(), location.hash);
+      if (!link) return;
+      history.replaceState(null, "", location.pathname + location.search);
+      applyState(link.state);
+      setToast(
+        link.notice
+          ? `Opened shared link: ${link.notice}`
+          : "Opened shared link",
+      );
+      setTimeout(() => setToast(null), 4000);
+    }
+    window.addEventListener("hashchange", onHash);
+    return () => window.removeEventListener("hashchange", onHash);
+  });
+
+  function copyPermalink() {
+    const { hash, placeholder } = encodePermalink(snapshotState());
+    navigator.clipboard?.writeText(
+      `${location.origin}${location.pathname}${location.search}#${hash}`,
+    );
+    setToast(
+      placeholder
+        ? "Link copied — the uploaded image will show as a placeholder"
+        : "Link copied",
+    );
+    setTimeout(() => setToast(null), placeholder ? 3000 : 1200);
+  }
+
+  // Uploaded images live in IndexedDB and items only keep a blobId. Recreate
+  // object URLs after a reload, and move sessions saved before that (with
+  // data URLs inline) out of localStorage. The ref only guards work in flight,
+  // so an import that brings back the same ids is picked up again.
+  useEffect(() => {
+    const pending = items.filter(
+      (x) =>
+        !hydratingRef.current.has(x.id) &&
+        ((x.blobId && !x.src) ||
+          (x.origin === "upload" && !x.blobId && x.src?.startsWith("data:"))),
+    );
+    if (!pending.length) return;
+    pending.forEach((x) => hydratingRef.current.add(x.id));
+    (async () => {
+      const patch = new Map<string, Partial<BGItem>>();
+      const source = new Map(pending.map((x) => [x.id, x]));
+      for (const it of pending) {
+        try {
+          if (it.blobId) {
+            const blob = await getBlob(it.blobId);
+            if (blob) patch.set(it.id, { src: URL.createObjectURL(blob) });
+          } else {
+            const blob = await (await fetch(it.src!)).blob();
+            const blobId = uid();
+            await putBlob(blobId, blob);
+            patch.set(it.id, { blobId, src: URL.createObjectURL(blob) });
+          }
+        } catch {}
+      }
+      pending.forEach((x) => hydratingRef.current.delete(x.id));
+      // Items replaced meanwhile (say by an import reusing the ids) keep their
+      // own source; the new array makes the next run hydrate them.
+      setItems((prev) => {
+        let changed = false;
+        const next = prev.map((x) => {
+          const from = source.get(x.id);
+          if (!from) return x;
+          if (x.blobId !== from.blobId || x.src !== from.src) {
+            changed = true;
+            return x;
+          }
+          if (!patch.has(x.id)) return x;
+          changed = true;
+          return { ...x, ...patch.get(x.id) };
+        });
+        return changed ? next : prev;
+      });
+      refreshStorageUsage();
+    })();
+  }, [items]);
+
+  // Auto-save
+  useEffect(() => {
+    const state = snapshotState();
+    const id = setTimeout(() => saveState(state), 250);
     return () => clearTimeout(id);
   }, [
     items,
@@ -665,19 +4359,150 @@ export default function MAI_Background_Chooser_Demo() {
     device,
     rotate,
     cardOpacity,
-    darkMode,
     cardColor,
     cardCount,
     generatedCards,
     sidebarCollapsed,
+    looks,
+    customDevices,
+  ]);
+
+  // Undo history: every committed change is diffed against the previous
+  // snapshot, except the ones made by undo/redo themselves.
+  useEffect(() => {
+    const next = snapshotState();
+    const prev = lastSnapshotRef.current;
+    lastSnapshotRef.current = next;
+    if (restoringRef.current) {
+      restoringRef.current = false;
+      return;
+    }
+    const change = prev && describeStateChange(prev, next);
+    if (!prev || !change) return;
+    const now = Date.now();
+    setUndoHistory((h) => {
+      const top = h.past[h.past.length - 1];
+      if (top && top.key === change.key && now - top.at < HISTORY_COALESCE_MS) {
+        const merged = { ...top, label: change.label, at: now };
+        return { past: [...h.past.slice(0, -1), merged], future: [] };
+      }
+      const entry = { ...change, at: now, state: prev };
+      return { past: [...h.past, entry].slice(-HISTORY_LIMIT), future: [] };
+    });
+  }, [
+    items,
+    index,
+    fit,
+    repeat,
+    pos,
+    overlay,
+    blur,
+    device,
+    rotate,
+    cardOpacity,
+    cardColor,
+    cardCount,
+    generatedCards,
+    looks,
+    customDevices,
   ]);
 
+  // Removed uploads stay in IndexedDB while an undo or redo step can bring
+  // them back; the blob goes once no state references it. Object URLs are
+  // tracked on their own, since one blob can be hydrated more than once.
+  useEffect(() => {
+    const blobs = new Set<string>();
+    const urls = new Set<string>();
+    const states = [
+      { items },
+      ...undoHistory.past.map((e) => e.state),
+      ...undoHistory.future.map((e) => e.state),
+    ];
+    for (const st of states) {
+      for (const x of st.items) {
+        if (x.blobId) blobs.add(x.blobId);
+        if (x.src?.startsWith("blob:")) urls.add(x.src);
+      }
+    }
+    for (const blobId of liveBlobsRef.current) {
+      if (blobs.has(blobId)) continue;
+      deleteBlob(blobId)
+        .catch(() => {})
+        .then(refreshStorageUsage);
+    }
+    for (const url of liveUrlsRef.current) {
+      if (!urls.has(url)) URL.revokeObjectURL(url);
+    }
+    liveBlobsRef.current = blobs;
+    liveUrlsRef.current = urls;
+    const current = new Set(items.map((x) => x.blobId));
+    writeReleasedBlobs(
+      tabId,
+      [...blobs].filter((id) => !current.has(id)),
+    );
+  }, [items, undoHistory]);
+
+  // Closing the tab ends its undo history, so its released blobs can go. The
+  // startup cleanup catches any delete that didn't finish before unload.
+  useEffect(() => {
+    function onPageHide(e: PageTransitionEvent) {
+      if (e.persisted) return;
+      const current = new Set(items.map((x) => x.blobId));
+      for (const id of liveBlobsRef.current) {
+        if (!current.has(id)) deleteBlob(id).catch(() => {});
+      }
+    }
+    window.addEventListener("pagehide", onPageHide);
+    return () => window.removeEventListener("pagehide", onPageHide);
+  });
+
+  function restoreSnapshot(st: ExportState) {
+    restoringRef.current = true;
+    applyState({ ...st, sidebarCollapsed });
+  }
+
+  function undo(steps = 1) {
+    const past = [...undoHistory.past];
+    const future = [...undoHistory.future];
+    if (!past.length) return;
+    let current = snapshotState();
+    for (let i = 0; i < steps && past.length; i++) {
+      const e = past.pop()!;
+      future.push({ ...e, state: current });
+      current = e.state;
+    }
+    setUndoHistory({ past, future });
+    restoreSnapshot(current);
+  }
+
+  function redo(steps = 1) {
+    const past = [...undoHistory.past];
+    const future = [...undoHistory.future];
+    if (!future.length) return;
+    let current = snapshotState();
+    for (let i = 0; i < steps && future.length; i++) {
+      const e = future.pop()!;
+      past.push({ ...e, state: current });
+      current = e.state;
+    }
+    setUndoHistory({ past, future });
+    restoreSnapshot(current);
+  }
+
   // Keyboard shortcuts
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
       const tag = (e.target as HTMLElement)?.tagName;
       if (tag === "INPUT" || tag === "TEXTAREA" || tag === "SELECT") return;
       const k = e.key.toLowerCase();
+      if ((e.ctrlKey || e.metaKey) && k === "z") {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+        return;
+      }
+      // Leave browser and OS combos (zoom, address bar, …) to the browser.
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
       if (k === "?") {
         setHelpOpen((v) => !v);
         return;
@@ -686,65 +4511,40 @@ export default function MAI_Background_Chooser_Demo() {
         setMeterOpen((v) => !v);
         return;
       }
+      if (k === "h") {
+        setHeatmapOpen((v) => !v);
+        return;
+      }
       if (k === "y") {
         if (!cur) return;
         navigator.clipboard?.writeText(
-          cssSnippet(cur, fit, repeat, pos, overlay),
+          cssSnippet(cur, fit, repeat, pos, overlay, items),
         );
         setToast("CSS copied");
         setTimeout(() => setToast(null), 1200);
         return;
       }
+      if (k === "l") {
+        copyPermalink();
+        return;
+      }
       if (k === "j") {
-        const state: ExportState = {
-          items: normalizeItems(items),
-          index,
-          fit,
-          repeat,
-          pos,
-          overlay,
-          blur,
-          device,
-          rotate,
-          cardOpacity,
-          darkMode,
-          cardColor,
-          cardCount,
-          generatedCards,
-          sidebarCollapsed,
-        };
-        downloadBlob("mai-background.json", JSON.stringify(state, null, 2));
-        setToast("Exported JSON");
-        setTimeout(() => setToast(null), 1200);
+        exportJSON();
+        return;
+      }
+      if (k === "i") {
+        importInputRef.current?.click();
         return;
       }
       if (k === "p") {
-        doExportPNG();
+        exportPngRef.current();
         return;
       }
       if (k === "s") {
-        try {
-          const st: ExportState = {
-            items: normalizeItems(items),
-            index,
-            fit,
-            repeat,
-            pos,
-            overlay,
-            blur,
-            device,
-            rotate,
-            cardOpacity,
-            darkMode,
-            cardColor,
-            cardCount,
-            generatedCards,
-            sidebarCollapsed,
-          };
-          localStorage.setItem(LS_KEY, JSON.stringify(st));
+        if (saveState(snapshotState())) {
           setToast("Saved");
           setTimeout(() => setToast(null), 800);
-        } catch {}
+        }
         return;
       }
       if (e.key === "ArrowRight" && hasItems)
@@ -752,7 +4552,33 @@ export default function MAI_Background_Chooser_Demo() {
       if (e.key === "ArrowLeft" && hasItems)
         setIndex((i) => (i - 1 + items.length) % items.length);
       if (k === "f" && cur) toggleFavorite(cur.id);
-      if (k === "c" && hasItems) setShowB((s) => !s);
+      if (k === "0") {
+        setZoom("fit");
+        return;
+      }
+      if (k === "+" || k === "=" || k === "-") {
+        stepZoom(k === "-" ? -1 : 1);
+        return;
+      }
+      if (k === "g") {
+        if (multiItems.length >= MULTI_UP_MIN) {
+          setMultiOpen((v) => !v);
+        } else {
+          setToast(
+            `Pick ${MULTI_UP_MIN}–${MULTI_UP_MAX} thumbnails for the grid first`,
+          );
+          setTimeout(() => setToast(null), 1800);
+        }
+        return;
+      }
+      if (k === "c" && hasItems) {
+        if (slotA || slotB) {
+          setCompareOpen((v) => !v);
+        } else {
+          setToast("Pick A and B on the thumbnails first");
+          setTimeout(() => setToast(null), 1800);
+        }
+      }
       const num = parseInt(e.key, 10);
       if (hasItems && !Number.isNaN(num) && num >= 1 && num <= 9) {
         const pool = visibleThumbnails();
@@ -774,11 +4600,18 @@ export default function MAI_Background_Chooser_Demo() {
     device,
     rotate,
     cardOpacity,
-    darkMode,
     cardColor,
     cardCount,
     generatedCards,
     sidebarCollapsed,
+    looks,
+    undoHistory,
+    slotA,
+    slotB,
+    multiIds,
+    zoom,
+    viewport,
+    customDevices,
   ]);
 
   async function addUploads(files: FileList | null) {
@@ -788,29 +4621,212 @@ export default function MAI_Background_Chooser_Demo() {
       const nameOk = /\.(avif|webp|jpe?g|png|gif|bmp|svg)$/i.test(f.name);
       const typeOk = f.type ? f.type.startsWith("image/") : false;
       if (!(typeOk || nameOk)) continue;
-      try {
-        const src = await fileToDataURL(f);
-        adds.push({
-          id: uid(),
-          name: f.name,
-          type: "image",
-          src,
-          origin: "upload",
-          favorite: false,
-        });
-      } catch {}
+      const item: BGItem = {
+        id: uid(),
+        name: f.name,
+        type: "image",
+        origin: "upload",
+        favorite: false,
+      };
+      try {
+        const blobId = uid();
+        await putBlob(blobId, f);
+        adds.push({ ...item, blobId, src: URL.createObjectURL(f) });
+      } catch {
+        // No IndexedDB (e.g. private mode): keep the old inline behaviour.
+        try {
+          adds.push({ ...item, src: await fileToDataURL(f) });
+        } catch {}
+      }
     }
     if (adds.length) {
       setItems((prev) => normalizeItems([...adds, ...prev]));
       setIndex(0);
+      navigator.storage?.persist?.().catch(() => {});
+      refreshStorageUsage();
     }
   }
 
+  // The blob itself is kept until the removal can no longer be undone.
   function removeItem(id: string) {
-    setItems((prev) => prev.filter((x) => x?.id !== id));
+    setItems((prev) => pruneArtSources(prev.filter((x) => x?.id !== id)));
     setIndex(0);
   }
 
+  function saveLook() {
+    if (!cur) return;
+    const look: Look = {
+      id: uid(),
+      name: `${cur.name} + ${Math.round(overlay * 100)}%`,
+      itemId: cur.id,
+      fit,
+      pos,
+      repeat,
+      overlay,
+      blur,
+      cardColor,
+      cardOpacity,
+      device,
+      rotate,
+    };
+    setLooks((prev) => [...prev, look]);
+    setRenamingLook(look.id);
+  }
+
+  function applyLook(look: Look) {
+    const i = items.findIndex((x) => x.id === look.itemId);
+    if (i >= 0) setIndex(i);
+    setFit(look.fit);
+    setPos(look.pos);
+    setRepeat(look.repeat);
+    setOverlay(look.overlay);
+    setBlur(look.blur);
+    setCardColor(look.cardColor);
+    setCardOpacity(look.cardOpacity);
+    setDevice(look.device);
+    setRotate(look.rotate);
+    if (i < 0) {
+      setToast(`"${look.name}": its background is no longer in the library`);
+      setTimeout(() => setToast(null), 2500);
+    }
+  }
+
+  // New profiles start from the current frame size; built-in ones are
+  // copied rather than edited.
+  function newDeviceDraft() {
+    const base = deviceProfile;
+    setDeviceDraft({
+      key: `custom-${uid()}`,
+      label: base.w === "100%" ? "Custom" : `${base.label} copy`,
+      w: base.w === "100%" ? frameSize.w : base.w,
+      h: base.h === "100%" ? frameSize.h : base.h,
+      dpr: base.dpr,
+      insets: base.insets ?? { top: 0, right: 0, bottom: 0, left: 0 },
+    });
+  }
+
+  function saveDeviceDraft() {
+    const profile = deviceDraft && validateDeviceProfile(deviceDraft);
+    if (!profile) {
+      setToast("Width and height must be 100–10000 px, DPR 0.5–5");
+      setTimeout(() => setToast(null), 2000);
+      return;
+    }
+    setCustomDevices((prev) =>
+      prev.some((d) => d.key === profile.key)
+        ? prev.map((d) => (d.key === profile.key ? profile : d))
+        : [...prev, profile],
+    );
+    setDevice(profile.key);
+    setDeviceDraft(null);
+  }
+
+  function deleteCustomDevice(key: string) {
+    setCustomDevices((prev) => prev.filter((d) => d.key !== key));
+    if (device === key) setDevice(DEFAULT_STATE.device);
+    setDeviceDraft(null);
+  }
+
+  function renameLook(id: string, name: string) {
+    setLooks((prev) => prev.map((l) => (l.id === id ? { ...l, name } : l)));
+  }
+
+  const lookNow = snapshotState();
+  const activeLookId = looks.find(
+    (l) =>
+      l.itemId === cur?.id &&
+      LOOK_FIELDS.every((key) => l[key] === lookNow[key]),
+  )?.id;
+
+  // The builder writes straight into the CSS draft, so preview, validation
+  // and saving all go through the custom CSS editor.
+  function updateBuilder(m: GradientModel) {
+    setBuilderModel(m);
+    setCssDraft(gradientModelToCss(m));
+  }
+
+  // Typing in the editor re-reads the builder from the draft. Half-typed
+  // values don't parse, so the builder keeps the last gradient that did
+  // instead of closing mid-edit.
+  function editCssDraft(css: string) {
+    setCssDraft(css);
+    if (!builderModel) return;
+    const m = singleGradientModel(normalizeCssBackgroundInput(css));
+    if (m) setBuilderModel(keepStopIds(builderModel, m));
+  }
+
+  // Loading another background replaces the builder's gradient outright; one
+  // it can't show closes it.
+  function loadCssDraft(item: BGItem) {
+    if (item.type !== "css" || !item.css) return;
+    setCssDraft(item.css);
+    if (builderModel) setBuilderModel(singleGradientModel(item.css));
+    setCssDraftName(item.origin === "custom" ? item.name : `${item.name} copy`);
+    setCssEditId(item.origin === "custom" ? item.id : null);
+  }
+
+  const editingCss = items.some((x) => x.id === cssEditId);
+
+  function clearCssDraft() {
+    setCssDraft("");
+    setCssDraftName("");
+    setBuilderModel(null);
+    setCssEditId(null);
+  }
+
+  // Opens on the draft if there is one, else on the selected gradient.
+  function openBuilder() {
+    const source = cssDraft.trim()
+      ? normalizeCssBackgroundInput(cssDraft)
+      : cur?.type === "css"
+        ? cur.css
+        : undefined;
+    if (!source) return updateBuilder(DEFAULT_GRADIENT_MODEL);
+    const m = singleGradientModel(source);
+    if (!m) {
+      setToast("Only single gradients open in the builder");
+      setTimeout(() => setToast(null), 1600);
+      return;
+    }
+    if (!cssDraft.trim() && cur) loadCssDraft(cur);
+    setBuilderModel(m);
+  }
+
+  function saveCssDraft(asNew = false) {
+    if (!draftItem) return;
+    const editing = items.find((x) => x.id === cssEditId);
+    const target = asNew ? undefined : editing;
+    const custom = items.filter((x) => x.origin === "custom").length;
+    const typed = cssDraftName.trim();
+    // A copy saved under its source's name gets a suffix to tell them apart.
+    const name =
+      asNew && typed === editing?.name
+        ? `${typed} copy`
+        : typed || target?.name || `Custom ${custom + 1}`;
+    if (target) {
+      setItems((prev) =>
+        prev.map((x) =>
+          x.id === target.id
+            ? normalizeItem({ ...x, name, css: draftItem.css })
+            : x,
+        ),
+      );
+      setIndex(items.indexOf(target));
+    } else {
+      const item: BGItem = {
+        ...draftItem,
+        id: uid(),
+        name,
+        favorite: false,
+      };
+      setItems((prev) => normalizeItems([item, ...prev]));
+      setIndex(0);
+    }
+    clearCssDraft();
+    setToast(`${target ? "Updated" : "Saved"} "${name}"`);
+    setTimeout(() => setToast(null), 1200);
+  }
+
   function toggleFavorite(id: string) {
     setItems((prev) =>
       prev.map((x) =>
@@ -821,10 +4837,15 @@ export default function MAI_Background_Chooser_Demo() {
     );
   }
 
-  function setCompareSlot(slot: "A" | "B") {
-    if (!hasItems) return;
-    if (slot === "A") setSlotA(index);
-    else setSlotB(index);
+  // Assigning a slot turns compare on; assigning the same item again clears it.
+  function setCompareSlot(slot: "A" | "B", id: string) {
+    const [current, set] = slot === "A" ? [slotA, setSlotA] : [slotB, setSlotB];
+    set(current === id ? null : id);
+    if (current !== id) setCompareOpen(true);
+  }
+
+  function setSideFx(slot: "A" | "B", fx: CompareFx | null) {
+    setCompareFx((prev) => ({ ...prev, [slot]: fx }));
   }
 
   function cycle(delta: number) {
@@ -839,6 +4860,9 @@ export default function MAI_Background_Chooser_Demo() {
       ...normalized.filter(
         (x) => !(x.favorite ?? false) && x.origin === "upload",
       ),
+      ...normalized.filter(
+        (x) => !(x.favorite ?? false) && x.origin === "custom",
+      ),
       ...normalized.filter(
         (x) => !(x.favorite ?? false) && x.origin === "preset",
       ),
@@ -846,21 +4870,88 @@ export default function MAI_Background_Chooser_Demo() {
   }
 
   const currentStyle = useMemo(
-    () => buildBackgroundStyle(cur, { fit, repeat, pos, blur }),
-    [cur, fit, repeat, pos, blur],
+    () =>
+      buildBackgroundStyle(art.item, {
+        fit: art.fit,
+        repeat,
+        pos: art.pos,
+        blur,
+      }),
+    [art.item, art.fit, repeat, art.pos, blur],
   );
 
-  const compareA = slotA != null ? items[slotA] : null;
-  const compareB = slotB != null ? items[slotB] : null;
-  const compareStyle = useMemo(
+  function setFocus(focus: BGItem["focus"] | null) {
+    if (!cur) return;
+    setItems((prev) =>
+      prev.map((x) => {
+        if (x.id !== cur.id) return x;
+        const next = { ...x, focus: focus ?? undefined };
+        if (!focus) delete next.focus;
+        return next;
+      }),
+    );
+  }
+
+  function updateArt(patch: ArtOverride | null) {
+    if (!cur) return;
+    setItems((prev) =>
+      prev.map((x) =>
+        x.id === cur.id ? withArtOverride(x, artTarget, patch) : x,
+      ),
+    );
+  }
+
+  // Fit, position and overlay controls edit the override while the current
+  // background has one for this device class.
+  function setViewFit(v: "cover" | "contain" | "auto") {
+    if (artOverride) updateArt({ fit: v });
+    else setFit(v);
+  }
+  function setViewPos(v: string) {
+    if (artOverride) updateArt({ pos: v });
+    else setPos(v);
+  }
+  function setViewOverlay(v: number) {
+    if (artOverride) updateArt({ overlay: v });
+    else setOverlay(v);
+  }
+
+  // A side without an assigned item shows the current background, a side
+  // without its own effects follows the global overlay and blur.
+  const compareA = items.find((x) => x.id === slotA);
+  const compareB = items.find((x) => x.id === slotB);
+  const compareView: CompareView | null =
+    compareOpen && (compareA || compareB)
+      ? {
+          a: compareA ?? shown,
+          b: compareB ?? shown,
+          split: compareSplit,
+          fxA: compareFx.A ?? { overlay, blur },
+          fxB: compareFx.B ?? { overlay, blur },
+        }
+      : null;
+  const comparing = !!compareView;
+  const compareStyleA = useMemo(
     () =>
-      buildBackgroundStyle(showB ? (compareB ?? cur) : (compareA ?? cur), {
+      compareView &&
+      buildBackgroundStyle(compareView.a, {
         fit,
         repeat,
         pos,
-        blur,
+        blur: compareView.fxA.blur,
+      }),
+    [compareView?.a, compareView?.fxA.blur, fit, repeat, pos],
+  );
+  const compareStyleB = useMemo(
+    () =>
+      compareView &&
+      buildBackgroundStyle(compareView.b, {
+        fit,
+        repeat,
+        pos,
+        blur: compareView.fxB.blur,
       }),
-    [compareA, compareB, showB, cur, fit, repeat, pos, blur],
+    [compareView?.b, compareView?.fxB.blur, fit, repeat, pos],
   );
 
   const cardBlurMax = 18;
@@ -873,81 +4964,772 @@ export default function MAI_Background_Chooser_Demo() {
     [cardOpacity],
   );
 
-  const hexToRgb = (hex: string) => {
-    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-    return result
-      ? {
-          r: parseInt(result[1], 16),
-          g: parseInt(result[2], 16),
-          b: parseInt(result[3], 16),
+  const hexToRgb = (hex: string) => {
+    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+    return result
+      ? {
+          r: parseInt(result[1], 16),
+          g: parseInt(result[2], 16),
+          b: parseInt(result[3], 16),
+        }
+      : null;
+  };
+  const rgb = hexToRgb(cardColor);
+  const cardBgColor = rgb
+    ? `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${cardOpacity})`
+    : `rgba(0, 0, 0, ${cardOpacity})`;
+  const cardPanelStyle: React.CSSProperties = useMemo(
+    () => ({
+      backgroundColor: cardBgColor,
+      backdropFilter: cardBlur ? `blur(${cardBlur}px)` : undefined,
+      WebkitBackdropFilter: cardBlur ? `blur(${cardBlur}px)` : undefined,
+    }),
+    [cardBgColor, cardBlur],
+  );
+
+  const cardTextChoice = useMemo(
+    () => chooseTextColorForCard(art.overlay, cardOpacity, cardColor),
+    [art.overlay, cardOpacity, cardColor],
+  );
+  const cardTextColor = cardTextChoice.color;
+  const cardTextClass =
+    cardTextColor === "black" ? "text-black/80" : "text-white/80";
+  const cardHeadingClass =
+    cardTextColor === "black" ? "text-black" : "text-white";
+  const cardButtonClass =
+    cardTextColor === "black"
+      ? "bg-black/10 hover:bg-black/20 text-black"
+      : "bg-white/10 hover:bg-white/20 text-white";
+
+  // The keyboard shortcut goes through this ref: the export reads most of the
+  // view state, far more than the key handler re-subscribes on.
+  exportPngRef.current = doExportPNG;
+  async function doExportPNG() {
+    const frame = frameRef.current;
+    const { width: w, height: h } = computeFrameStyle(
+      device,
+      rotate,
+      customDevices,
+    );
+    const ratio = exportScale || deviceProfile.dpr;
+    const url = await exportBackgroundPNG({
+      item: art.item,
+      compare: compareView,
+      fit: art.fit,
+      repeat,
+      pos: art.pos,
+      overlay: art.overlay,
+      blur,
+      width:
+        frame?.clientWidth || parseInt(String(w).replace("px", "")) || 1440,
+      height:
+        frame?.clientHeight || parseInt(String(h).replace("px", "")) || 900,
+      pixelRatio: ratio,
+      heatmap: exportHeatmap ? heatmapUrl : null,
+      frame,
+      content: contentRef.current,
+      chrome: exportChrome ? deviceChrome?.parts : undefined,
+    });
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = ratio !== 1 ? `mai-preview@${ratio}x.png` : "mai-preview.png";
+    a.click();
+    URL.revokeObjectURL(url);
+    setToast("Exported PNG");
+    setTimeout(() => setToast(null), 1200);
+  }
+
+  // Renders every chosen background through the PNG export path at tile
+  // size, measures its contrast behind the same text regions, and lays the
+  // captioned tiles out on a sheet.
+  async function exportContactSheet() {
+    const pool =
+      sheetSource === "favorites"
+        ? items.filter((x) => x.favorite)
+        : sheetSource === "grid"
+          ? multiItems
+          : items;
+    if (!pool.length) {
+      setToast(
+        sheetSource === "favorites"
+          ? "No favourites to put on the sheet"
+          : sheetSource === "grid"
+            ? "No grid selection to put on the sheet"
+            : "No backgrounds to put on the sheet",
+      );
+      setTimeout(() => setToast(null), 1500);
+      return;
+    }
+    const frame = frameRef.current;
+    if (!frame || sheetBusy) return;
+    setSheetBusy(true);
+    try {
+      const width = frame.clientWidth || 1440;
+      const height = frame.clientHeight || 900;
+      const regions = measureContrastRegions(
+        frame,
+        contrastTargets(mainPageRefs),
+      );
+      const tiles: SheetTile[] = [];
+      for (const [i, it] of pool.entries()) {
+        setToast(`Rendering ${i + 1}/${pool.length}…`);
+        const v = artFor(it);
+        const canvas = await renderFrameCanvas({
+          item: v.item,
+          fit: v.fit,
+          repeat,
+          pos: v.pos,
+          overlay: v.overlay,
+          blur,
+          width,
+          height,
+          pixelRatio: Math.min(1, SHEET_TILE_WIDTH / width),
+          frame,
+          content: contentRef.current,
+        });
+        const samples = await sampleContrastRegions({
+          item: v.item,
+          fit: v.fit,
+          repeat,
+          pos: v.pos,
+          blur,
+          cardBlur,
+          width,
+          height,
+          regions,
+        });
+        const scored = (samples ?? []).map((region) =>
+          scoreContrastSamples(region, {
+            overlay: v.overlay,
+            text:
+              region.kind === "page"
+                ? "white"
+                : chooseTextColorForCard(v.overlay, cardOpacity, cardColor)
+                    .color,
+            cardColor,
+            cardOpacity,
+          }),
+        );
+        const page = summarizeContrast(scored.filter((e) => e.kind === "page"));
+        const cards = summarizeContrast(
+          scored.filter((e) => e.kind === "card"),
+        );
+        tiles.push({
+          canvas,
+          title: it.name,
+          lines: [
+            `overlay ${Math.round(v.overlay * 100)}% · blur ${blur}px · ${v.fit}`,
+            page && cards
+              ? `contrast page ${page.ratio.toFixed(2)}:1 · cards ${cards.ratio.toFixed(2)}:1`
+              : "contrast unavailable",
+          ],
+          pass: page && cards ? page.passAA && cards.passAA : null,
+        });
+      }
+
+      const heading = `MAI backgrounds · ${deviceProfile.label} ${width}×${height} · ${new Date().toLocaleDateString()}`;
+      const a = document.createElement("a");
+      if (sheetFormat === "png") {
+        const sheet = renderContactSheet(tiles, heading);
+        const blob = await new Promise<Blob | null>((resolve) =>
+          sheet.toBlob(resolve, "image/png"),
+        );
+        a.href = URL.createObjectURL(blob!);
+        a.download = "mai-contact-sheet.png";
+      } else {
+        const pages = [];
+        const count = Math.ceil(tiles.length / SHEET_TILES_PER_PAGE);
+        for (let p = 0; p < count; p++) {
+          const chunk = tiles.slice(
+            p * SHEET_TILES_PER_PAGE,
+            (p + 1) * SHEET_TILES_PER_PAGE,
+          );
+          const sheet = renderContactSheet(
+            chunk,
+            count > 1 ? `${heading} · page ${p + 1}/${count}` : heading,
+          );
+          pages.push({
+            jpeg: await canvasToJpeg(sheet),
+            width: sheet.width,
+            height: sheet.height,
+          });
+        }
+        a.href = URL.createObjectURL(buildPdf(pages));
+        a.download = "mai-contact-sheet.pdf";
+      }
+      a.click();
+      URL.revokeObjectURL(a.href);
+      setToast(`Exported contact sheet (${tiles.length} backgrounds)`);
+    } catch {
+      setToast("Contact sheet export failed");
+    } finally {
+      setSheetBusy(false);
+      setTimeout(() => setToast(null), 1500);
+    }
+  }
+
+  // Re-measure when the frame resizes (device switch, rotate, window resize).
+  useEffect(() => {
+    const frame = frameRef.current;
+    if (!frame || typeof ResizeObserver === "undefined") return;
+    const ro = new ResizeObserver(() => {
+      setLayoutTick((t) => t + 1);
+      setFrameSize({
+        w: frame.clientWidth || 1440,
+        h: frame.clientHeight || 900,
+      });
+    });
+    ro.observe(frame);
+    return () => ro.disconnect();
+  }, []);
+
+  // Multi-up tiles are scaled copies of the device frame, so one tile's
+  // layout gives the text regions for all of them; only the background
+  // differs per tile.
+  const multiItems = multiIds
+    .map((id) => items.find((x) => x.id === id))
+    .filter((x): x is BGItem => !!x);
+  const multiView = multiOpen && multiItems.length >= MULTI_UP_MIN;
+  const multiLayout = multiUpLayout(
+    Math.max(1, multiItems.length),
+    multiArea.w,
+    multiArea.h,
+    frameSize.w,
+    frameSize.h,
+  );
+
+  useEffect(() => {
+    const area = multiAreaRef.current;
+    if (!multiView || !area || typeof ResizeObserver === "undefined") return;
+    const ro = new ResizeObserver(() =>
+      setMultiArea({ w: area.clientWidth, h: area.clientHeight }),
+    );
+    ro.observe(area);
+    return () => ro.disconnect();
+  }, [multiView]);
+
+  useEffect(() => {
+    if (!multiView) return;
+    let cancelled = false;
+    const id = setTimeout(async () => {
+      const frame = multiFrameRef.current;
+      if (!frame) return;
+      const regions = measureContrastRegions(
+        frame,
+        contrastTargets(multiPageRefs),
+      );
+      const out: Record<string, ContrastSamples[] | null> = {};
+      for (const it of multiItems) {
+        const v = artFor(it);
+        out[it.id] = await sampleContrastRegions({
+          item: v.item,
+          fit: v.fit,
+          repeat,
+          pos: v.pos,
+          blur,
+          cardBlur,
+          width: frame.clientWidth,
+          height: frame.clientHeight,
+          regions,
+        });
+        if (cancelled) return;
+      }
+      setMultiSamples(out);
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(id);
+    };
+  }, [
+    multiView,
+    multiIds.join(),
+    items,
+    fit,
+    repeat,
+    pos,
+    blur,
+    cardBlur,
+    generatedCards,
+    frameSize,
+    multiLayout.scale,
+    artTarget,
+  ]);
+
+  const multiContrast = useMemo(() => {
+    const out: Record<string, { page: number; cards: number } | null> = {};
+    for (const [id, samples] of Object.entries(multiSamples)) {
+      const v = artFor(items.find((x) => x.id === id));
+      const scored = samples?.map((region) =>
+        scoreContrastSamples(region, {
+          overlay: v.overlay,
+          text:
+            region.kind === "page"
+              ? "white"
+              : chooseTextColorForCard(v.overlay, cardOpacity, cardColor).color,
+          cardColor,
+          cardOpacity,
+        }),
+      );
+      const page = summarizeContrast(
+        (scored ?? []).filter((e) => e.kind === "page"),
+      );
+      const cards = summarizeContrast(
+        (scored ?? []).filter((e) => e.kind === "card"),
+      );
+      out[id] = page && cards ? { page: page.ratio, cards: cards.ratio } : null;
+    }
+    return out;
+  }, [multiSamples, items, artTarget, overlay, cardColor, cardOpacity]);
+
+  function toggleMultiPick(id: string) {
+    if (!multiIds.includes(id) && multiIds.length >= MULTI_UP_MAX) {
+      setToast(`The grid holds up to ${MULTI_UP_MAX} backgrounds`);
+      setTimeout(() => setToast(null), 1500);
+      return;
+    }
+    setMultiIds((prev) =>
+      prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id],
+    );
+  }
+
+  // Sample the real background behind the hero, the cards and the sample
+  // block while the meter is open. Scoring happens below so overlay and card
+  // tweaks don't need a re-render of the background. A/B compare shows two
+  // backgrounds under the same text, so the meter pauses until it ends.
+  useEffect(() => {
+    if (!meterOpen || comparing) return;
+    let cancelled = false;
+    const id = setTimeout(async () => {
+      const frame = frameRef.current;
+      if (!frame) return;
+      const regions = measureContrastRegions(
+        frame,
+        contrastTargets(mainPageRefs),
+      );
+      const result = await sampleContrastRegions({
+        item: art.item,
+        fit: art.fit,
+        repeat,
+        pos: art.pos,
+        blur,
+        cardBlur,
+        width: frame.clientWidth,
+        height: frame.clientHeight,
+        regions,
+      });
+      if (!cancelled) setContrastSamples(result);
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(id);
+    };
+  }, [
+    meterOpen,
+    comparing,
+    art.item,
+    art.fit,
+    repeat,
+    art.pos,
+    blur,
+    cardBlur,
+    generatedCards,
+    layoutTick,
+  ]);
+
+  // Heatmap: render the bare background once per layout/background change and
+  // recolour it cheaply when only the overlay or text colour moves.
+  useEffect(() => {
+    if (!heatmapOpen) return;
+    let cancelled = false;
+    const id = setTimeout(async () => {
+      const frame = frameRef.current;
+      if (!frame || !art.item) return;
+      try {
+        const canvas = await renderBackgroundCanvas(
+          art.item,
+          { fit: art.fit, repeat, pos: art.pos, blur },
+          frame.clientWidth,
+          frame.clientHeight,
+        );
+        const data = canvas
+          .getContext("2d")!
+          .getImageData(0, 0, canvas.width, canvas.height);
+        if (!cancelled) setHeatmapBase(data);
+      } catch {
+        if (!cancelled) setHeatmapBase(null);
+      }
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(id);
+    };
+  }, [heatmapOpen, art.item, art.fit, repeat, art.pos, blur, layoutTick]);
+
+  const heatmapUrl = useMemo(
+    () =>
+      heatmapOpen && heatmapBase
+        ? renderContrastHeatmap(heatmapBase, art.overlay, heatmapText)
+        : null,
+    [heatmapOpen, heatmapBase, art.overlay, heatmapText],
+  );
+
+  const contrastElements = useMemo(
+    () =>
+      contrastSamples?.map((region) =>
+        scoreContrastSamples(region, {
+          overlay: art.overlay,
+          text: region.kind === "page" ? "white" : cardTextColor,
+          cardColor,
+          cardOpacity,
+        }),
+      ) ?? null,
+    [contrastSamples, art.overlay, cardTextColor, cardColor, cardOpacity],
+  );
+  const contrastMeasured = !!contrastElements?.length;
+
+  const contrastPage = useMemo(
+    () =>
+      summarizeContrast(
+        (contrastElements ?? []).filter((e) => e.kind === "page"),
+      ) ?? estimateMinContrastFromOverlay(art.overlay),
+    [contrastElements, art.overlay],
+  );
+  const contrastCard = useMemo(
+    () =>
+      summarizeContrast(
+        (contrastElements ?? []).filter((e) => e.kind === "card"),
+      ) ?? estimateCardContrast(art.overlay, cardOpacity, cardColor),
+    [contrastElements, art.overlay, cardOpacity, cardColor],
+  );
+
+  function autoFixContrast() {
+    const fix = solveContrastSettings({
+      target: fixTarget,
+      samples: contrastSamples,
+      cardColor,
+    });
+    setViewOverlay(fix.overlay);
+    setCardOpacity(fix.cardOpacity);
+    setCardColor(fix.cardColor);
+    setToast(
+      !fix.pagePass
+        ? `Page text can't reach ${fixTarget}; overlay set to max`
+        : !fix.cardPass
+          ? `Card text can't reach ${fixTarget}; cards set to opaque`
+          : `${fixTarget}: overlay ${Math.round(fix.overlay * 100)}%, cards ${Math.round(fix.cardOpacity * 100)}% ${fix.cardColor}`,
+    );
+    setTimeout(() => setToast(null), 2000);
+  }
+
+  // The hero, cards and sample block shown on the device canvas and on every
+  // multi-up tile. Refs are only attached where contrast gets measured.
+  type PageRefs = {
+    hero: React.RefObject<HTMLHeadingElement>;
+    cards: React.MutableRefObject<Array<HTMLElement | null>>;
+    sample: React.RefObject<HTMLDivElement>;
+    cta?: React.RefObject<HTMLButtonElement>;
+  };
+  const mainPageRefs: PageRefs = {
+    hero: heroRef,
+    cards: cardRefs,
+    sample: sampleRef,
+    cta: ctaRef,
+  };
+  const multiPageRefs: PageRefs = {
+    hero: multiHeroRef,
+    cards: multiCardRefs,
+    sample: multiSampleRef,
+  };
+
+  function renderPageContent(refs?: PageRefs) {
+    return (
+      <>
+        <section className="max-w-7xl mx-auto px-6 py-12">
+          <h1
+            ref={refs?.hero}
+            className="text-4xl md:text-6xl font-bold tracking-tight"
+          >
+            Museum of Artificial Intelligence
+          </h1>
+          <p className="mt-4 text-lg md:text-xl max-w-2xl text-white/80">
+            Exhibition platform for the history and future of computation.
+            Prototype layout to evaluate background imagery, readability, and
+            motion.
+          </p>
+          <div className="mt-6 flex gap-3">
+            <button
+              ref={refs?.cta}
+              className="px-5 py-2.5 rounded-full bg-white text-black hover:bg-white/90"
+            >
+              Buy Tickets
+            </button>
+            <button className="px-5 py-2.5 rounded-full bg-white/10 hover:bg-white/20">
+              Plan Your Visit
+            </button>
+          </div>
+        </section>
+
+        <section className="@container max-w-7xl mx-auto px-6 grid grid-cols-1 @md:grid-cols-2 @lg:grid-cols-3 gap-6">
+          {generatedCards.map((card, i) => (
+            <article
+              key={card.id}
+              ref={refs && ((el) => (refs.cards.current[i] = el))}
+              className="rounded-2xl border border-white/10 p-5"
+              style={cardPanelStyle}
+            >
+              <h3 className={`text-xl font-semibold ${cardHeadingClass}`}>
+                {card.title}
+              </h3>
+              <p className={`mt-2 text-sm ${cardTextClass}`}>{card.content}</p>
+              <button
+                className={`mt-4 text-sm px-4 py-2 rounded-md ${cardButtonClass}`}
+              >
+                Open
+              </button>
+            </article>
+          ))}
+        </section>
+
+        <section className="max-w-7xl mx-auto px-6 py-12">
+          <div
+            ref={refs?.sample}
+            className="rounded-2xl p-6 border border-white/10"
+            style={cardPanelStyle}
+          >
+            <h2 className={`text-2xl font-semibold ${cardHeadingClass}`}>
+              Sample Text Block
+            </h2>
+            <p className={`mt-3 leading-7 ${cardTextClass}`}>
+              This is a block of paragraph text used to check long-form
+              readability against your background choice. Adjust overlay to meet
+              WCAG contrast goals. Headlines, links, and buttons are represented
+              above.
+            </p>
+          </div>
+        </section>
+      </>
+    );
+  }
+
+  function contrastTargets(refs: PageRefs) {
+    return [
+      {
+        key: "hero",
+        label: "Hero heading",
+        kind: "page" as const,
+        el: refs.hero.current,
+      },
+      ...generatedCards.map((card, i) => ({
+        key: `card-${card.id}`,
+        label: `Card ${i + 1} · ${card.title}`,
+        kind: "card" as const,
+        el: refs.cards.current[i] ?? null,
+      })),
+      {
+        key: "sample",
+        label: "Sample Text Block",
+        kind: "card" as const,
+        el: refs.sample.current,
+      },
+    ];
+  }
+
+  // Fixed-size devices are laid out at their logical CSS size and scaled
+  // with a transform, so container queries still see the simulated width.
+  // The wrapper takes the scaled size to keep centring and scrolling right.
+  const logicalSize =
+    sweepSize ??
+    (typeof deviceProfile.w === "number" && typeof deviceProfile.h === "number"
+      ? rotate
+        ? { w: deviceProfile.h, h: deviceProfile.w }
+        : { w: deviceProfile.w, h: deviceProfile.h }
+      : null);
+  const fitScale =
+    logicalSize && viewport.w > 0 && viewport.h > 0
+      ? Math.min(1, viewport.w / logicalSize.w, viewport.h / logicalSize.h)
+      : 1;
+  const frameScale = !logicalSize ? 1 : zoom === "fit" ? fitScale : zoom / 100;
+  const codePreviewSize = logicalSize ?? frameSize;
+
+  // Steps the frame through a width range at the current height. Each step
+  // records the card column count, measured contrast, the visible part of
+  // the image and a thumbnail rendered through the PNG export path.
+  async function runSweep() {
+    const frame = frameRef.current;
+    const widths = sweepWidths(sweepRange);
+    if (!frame || sweepRunning || !widths.length) return;
+    if (widths.length > SWEEP_MAX_FRAMES) {
+      setToast(
+        `A sweep takes at most ${SWEEP_MAX_FRAMES} steps; raise the step or narrow the range`,
+      );
+      setTimeout(() => setToast(null), 2500);
+      return;
+    }
+    const height = logicalSize?.h ?? frame.clientHeight;
+    const naturals = new Map<string, { w: number; h: number } | null>();
+    sweepCancelRef.current = false;
+    setSweepRunning(true);
+    setSweepFrames([]);
+    const frames: SweepFrame[] = [];
+    try {
+      for (const width of widths) {
+        if (sweepCancelRef.current) break;
+        setSweepSize({ w: width, h: height });
+        await new Promise((r) => setTimeout(r, SWEEP_STEP_DELAY_MS));
+        await new Promise((r) =>
+          requestAnimationFrame(() => requestAnimationFrame(r)),
+        );
+        const grid = cardRefs.current[0]?.parentElement;
+        const cols = grid
+          ? getComputedStyle(grid).gridTemplateColumns.split(" ").length
+          : 0;
+        // The closure predates each width, so art direction is resolved here.
+        const v = resolveArt(
+          shown,
+          artTargetFor(width),
+          { fit, pos, overlay },
+          items,
+        );
+        const src = v.item?.type === "image" ? v.item.src : undefined;
+        if (src && !naturals.has(src)) {
+          try {
+            const img = await loadImage(src);
+            naturals.set(src, { w: img.naturalWidth, h: img.naturalHeight });
+          } catch {
+            naturals.set(src, null);
+          }
         }
-      : null;
-  };
-  const rgb = hexToRgb(cardColor);
-  const cardBgColor = rgb
-    ? `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${cardOpacity})`
-    : `rgba(0, 0, 0, ${cardOpacity})`;
-  const cardPanelStyle: React.CSSProperties = useMemo(
-    () => ({
-      backgroundColor: cardBgColor,
-      backdropFilter: cardBlur ? `blur(${cardBlur}px)` : undefined,
-      WebkitBackdropFilter: cardBlur ? `blur(${cardBlur}px)` : undefined,
-    }),
-    [cardBgColor, cardBlur],
-  );
+        const natural = src ? naturals.get(src) : null;
+        const samples = await sampleContrastRegions({
+          item: v.item,
+          fit: v.fit,
+          repeat,
+          pos: v.pos,
+          blur,
+          cardBlur,
+          width,
+          height,
+          regions: measureContrastRegions(frame, contrastTargets(mainPageRefs)),
+        });
+        const scored = (samples ?? []).map((region) =>
+          scoreContrastSamples(region, {
+            overlay: v.overlay,
+            text:
+              region.kind === "page"
+                ? "white"
+                : chooseTextColorForCard(v.overlay, cardOpacity, cardColor)
+                    .color,
+            cardColor,
+            cardOpacity,
+          }),
+        );
+        const canvas = await renderFrameCanvas({
+          item: v.item,
+          fit: v.fit,
+          repeat,
+          pos: v.pos,
+          overlay: v.overlay,
+          blur,
+          width,
+          height,
+          pixelRatio: SWEEP_THUMB_HEIGHT / height,
+          frame,
+          content: contentRef.current,
+        });
+        const result = {
+          width,
+          height,
+          cols,
+          page:
+            summarizeContrast(scored.filter((e) => e.kind === "page"))?.ratio ??
+            null,
+          cards:
+            summarizeContrast(scored.filter((e) => e.kind === "card"))?.ratio ??
+            null,
+          crop: natural
+            ? visibleSourceRect(
+                natural.w,
+                natural.h,
+                width,
+                height,
+                v.fit,
+                itemPosition(v.item, v.pos),
+              )
+            : null,
+        };
+        const prev = frames[frames.length - 1];
+        frames.push({
+          ...result,
+          thumb: canvas.toDataURL("image/jpeg", 0.8),
+          changes: prev ? describeSweepChanges(prev, result) : [],
+        });
+        setSweepFrames([...frames]);
+      }
+    } catch (err) {
+      setToast(
+        `Sweep stopped: ${err instanceof Error ? err.message : "rendering failed"}`,
+      );
+      setTimeout(() => setToast(null), 2500);
+    } finally {
+      setSweepSize(null);
+      setSweepRunning(false);
+    }
+  }
 
-  const cardTextChoice = useMemo(
-    () => chooseTextColorForCard(overlay, cardOpacity, cardColor),
-    [overlay, cardOpacity, cardColor],
-  );
-  const cardTextColor = cardTextChoice.color;
-  const cardTextClass =
-    cardTextColor === "black" ? "text-black/80" : "text-white/80";
-  const cardHeadingClass =
-    cardTextColor === "black" ? "text-black" : "text-white";
-  const cardButtonClass =
-    cardTextColor === "black"
-      ? "bg-black/10 hover:bg-black/20 text-black"
-      : "bg-white/10 hover:bg-white/20 text-white";
+  // Which of the hero heading and the main call to action the chrome covers
+  // at the current scroll position.
+  useEffect(() => {
+    const frame = frameRef.current;
+    if (!deviceChrome || !frame) {
+      setChromeHidden([]);
+      return;
+    }
+    const id = setTimeout(() => {
+      const regions = measureContrastRegions(frame, [
+        {
+          key: "hero",
+          label: "Hero heading",
+          kind: "page",
+          el: heroRef.current,
+        },
+        { key: "cta", label: "Buy Tickets", kind: "page", el: ctaRef.current },
+      ]);
+      setChromeHidden(regionsUnderChrome(regions, deviceChrome));
+    }, 100);
+    return () => clearTimeout(id);
+  }, [deviceChrome, layoutTick, generatedCards, frameScale]);
 
-  async function doExportPNG() {
-    const { width: w, height: h } = computeFrameStyle(device, rotate);
-    const url = await exportBackgroundPNG({
-      item: cur,
-      compareA,
-      compareB,
-      showB,
-      fit,
-      repeat,
-      pos,
-      overlay,
-      blur,
-      width: parseInt(String(w).replace("px", "")) || 1440,
-      height: parseInt(String(h).replace("px", "")) || 900,
-    });
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "mai-preview.png";
-    a.click();
-    URL.revokeObjectURL(url);
-    setToast("Exported PNG");
-    setTimeout(() => setToast(null), 1200);
+  function stepZoom(dir: 1 | -1) {
+    const current = Math.round(frameScale * 100);
+    const next =
+      dir > 0
+        ? ZOOM_LEVELS.find((z) => z > current)
+        : [...ZOOM_LEVELS].reverse().find((z) => z < current);
+    setZoom(
+      next ?? (dir > 0 ? ZOOM_LEVELS[ZOOM_LEVELS.length - 1] : ZOOM_LEVELS[0]),
+    );
   }
 
-  const contrastPage = useMemo(
-    () => estimateMinContrastFromOverlay(overlay),
-    [overlay],
-  );
-  const contrastCard = useMemo(
-    () => estimateCardContrast(overlay, cardOpacity, cardColor),
-    [overlay, cardOpacity, cardColor],
-  );
+  useEffect(() => {
+    const el = viewportRef.current;
+    if (!el || typeof ResizeObserver === "undefined") return;
+    const ro = new ResizeObserver(() =>
+      setViewport({ w: el.clientWidth, h: el.clientHeight }),
+    );
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, []);
 
-  const getDeviceCanvasStyle = () => {
-    if (device === "fluid") {
+  const getDeviceCanvasStyle = (): React.CSSProperties => {
+    if (!logicalSize) {
       return { width: "100%", height: "100%" };
     }
-    return computeFrameStyle(device, rotate);
+    return {
+      width: logicalSize.w,
+      height: logicalSize.h,
+      transform: frameScale !== 1 ? `scale(${frameScale})` : undefined,
+      transformOrigin: "top left",
+    };
   };
 
   return (
@@ -1006,7 +5788,87 @@ export default function MAI_Background_Chooser_Demo() {
             </div>
           ) : (
             <div className="space-y-4">
+              {(saveFailed ||
+                (storageUsage &&
+                  storageUsage.usage / storageUsage.quota >
+                    STORAGE_WARN_RATIO)) && (
+                <div className="rounded-md border border-amber-400/40 bg-amber-500/15 px-2 py-1.5 text-xs text-amber-200">
+                  {saveFailed
+                    ? "Couldn't save this session: browser storage is full. Remove some uploads or export JSON."
+                    : `Browser storage is ${Math.round((storageUsage!.usage / storageUsage!.quota) * 100)}% full (${formatBytes(storageUsage!.usage)} of ${formatBytes(storageUsage!.quota)}).`}
+                </div>
+              )}
               {/* Controls Sections */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="block text-sm font-medium">Looks</label>
+                  <button
+                    onClick={saveLook}
+                    disabled={!cur}
+                    className="text-xs opacity-70 hover:opacity-100 disabled:opacity-40"
+                  >
+                    + Save current
+                  </button>
+                </div>
+                {looks.length === 0 ? (
+                  <div className="text-xs opacity-60">
+                    Save the current background and settings as a named look.
+                  </div>
+                ) : (
+                  <ul className="space-y-1">
+                    {looks.map((l) => (
+                      <li key={l.id} className="flex items-center gap-1">
+                        {renamingLook === l.id ? (
+                          <input
+                            autoFocus
+                            value={l.name}
+                            onChange={(e) => renameLook(l.id, e.target.value)}
+                            onBlur={() => setRenamingLook(null)}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter" || e.key === "Escape") {
+                                setRenamingLook(null);
+                              }
+                            }}
+                            className="flex-1 min-w-0 bg-neutral-800 border border-neutral-600 rounded px-2 py-1 text-sm outline-none"
+                          />
+                        ) : (
+                          <button
+                            onClick={() => applyLook(l)}
+                            onDoubleClick={() => setRenamingLook(l.id)}
+                            title={
+                              items.some((x) => x.id === l.itemId)
+                                ? "Apply look (double-click to rename)"
+                                : "Background missing from library"
+                            }
+                            className={`flex-1 min-w-0 truncate text-left px-2 py-1 rounded-md text-sm ${l.id === activeLookId ? "bg-white/25" : "bg-white/10 hover:bg-white/20"}`}
+                          >
+                            {l.name}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setRenamingLook(l.id)}
+                          className="px-1.5 py-1 rounded-md bg-white/10 hover:bg-white/20 text-xs"
+                          title="Rename"
+                        >
+                          ✎
+                        </button>
+                        <button
+                          onClick={() =>
+                            setLooks((prev) =>
+                              prev.filter((x) => x.id !== l.id),
+                            )
+                          }
+                          className="px-1.5 py-1 rounded-md bg-white/10 hover:bg-white/20 text-xs"
+                          title="Delete"
+                        >
+                          ✕
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
               <div>
                 <label className="block text-sm font-medium mb-2">Upload</label>
                 <input
@@ -1018,14 +5880,285 @@ export default function MAI_Background_Chooser_Demo() {
                 />
               </div>
 
+              {/* Optimise */}
+              {cur?.type === "image" && (
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium">Optimise</label>
+                  <input
+                    type="text"
+                    value={encodeSpec.widths}
+                    onChange={(e) =>
+                      setEncodeSpec({ ...encodeSpec, widths: e.target.value })
+                    }
+                    placeholder="Widths, e.g. 640, 1280, 1920"
+                    title="Widths in pixels"
+                    className="w-full bg-neutral-800 border border-neutral-600 rounded px-2 py-1 text-sm outline-none"
+                  />
+                  <div className="flex items-center gap-3 text-xs">
+                    {ENCODE_FORMATS.map((f) => (
+                      <label key={f.mime} className="flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          checked={encodeSpec.mimes.includes(f.mime)}
+                          onChange={(e) =>
+                            setEncodeSpec({
+                              ...encodeSpec,
+                              mimes: e.target.checked
+                                ? [...encodeSpec.mimes, f.mime]
+                                : encodeSpec.mimes.filter((m) => m !== f.mime),
+                            })
+                          }
+                          className="rounded"
+                        />
+                        {f.label}
+                      </label>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className="opacity-80">Quality</span>
+                    <input
+                      type="range"
+                      min={0.3}
+                      max={0.95}
+                      step={0.05}
+                      value={encodeSpec.quality}
+                      onChange={(e) =>
+                        setEncodeSpec({
+                          ...encodeSpec,
+                          quality: parseFloat(e.target.value),
+                        })
+                      }
+                      className="flex-1"
+                    />
+                    <span className="font-mono w-8 text-right">
+                      {Math.round(encodeSpec.quality * 100)}
+                    </span>
+                  </div>
+                  <button
+                    onClick={encodeDerivatives}
+                    disabled={encodeBusy || !encodeSpec.mimes.length}
+                    className="w-full px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm disabled:opacity-40"
+                  >
+                    {encodeBusy ? "Encoding…" : "Encode"}
+                  </button>
+                  {encoded?.itemId === cur.id && (
+                    <div className="space-y-1 text-xs">
+                      {encoded.results.map((r, i) => (
+                        <label
+                          key={r.url}
+                          className="flex items-center gap-2 font-mono"
+                        >
+                          <input
+                            type="radio"
+                            checked={encoded.preview === i}
+                            onChange={() =>
+                              setEncoded({ ...encoded, preview: i })
+                            }
+                          />
+                          <span className="w-9">
+                            {encodeFormat(r.mime).label}
+                          </span>
+                          <span className="flex-1">
+                            {r.width}×{r.height}
+                          </span>
+                          <span>{formatBytes(r.blob.size)}</span>
+                          {encoded.original > 0 && (
+                            <span
+                              className={
+                                r.blob.size < encoded.original
+                                  ? "text-green-400"
+                                  : "text-amber-300"
+                              }
+                            >
+                              {r.blob.size < encoded.original ? "−" : "+"}
+                              {Math.round(
+                                (Math.abs(encoded.original - r.blob.size) /
+                                  encoded.original) *
+                                  100,
+                              )}
+                              %
+                            </span>
+                          )}
+                        </label>
+                      ))}
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="radio"
+                          checked={encoded.preview === null}
+                          onChange={() =>
+                            setEncoded({ ...encoded, preview: null })
+                          }
+                        />
+                        Original · {formatBytes(encoded.original)}
+                      </label>
+                      <div className="flex gap-1">
+                        <button
+                          onClick={downloadDerivatives}
+                          className="flex-1 px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm"
+                        >
+                          Download zip
+                        </button>
+                        <button
+                          onClick={() => setEncoded(null)}
+                          className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm"
+                        >
+                          Clear
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Custom CSS */}
+              <div className="space-y-2">
+                <label className="block text-sm font-medium">Custom CSS</label>
+                <textarea
+                  value={cssDraft}
+                  onChange={(e) => editCssDraft(e.target.value)}
+                  rows={3}
+                  spellCheck={false}
+                  placeholder="linear-gradient(160deg, #0b1020, #1f2937)"
+                  className="w-full bg-neutral-800 border border-neutral-600 rounded px-2 py-1 text-xs font-mono outline-none"
+                />
+                {cssDraftCheck && (
+                  <div
+                    className={`text-xs ${cssDraftCheck.error ? "text-red-400" : cssDraftCheck.warning ? "text-amber-300" : "text-green-400"}`}
+                  >
+                    {cssDraftCheck.error ??
+                      cssDraftCheck.warning ??
+                      "Valid — previewing on canvas"}
+                  </div>
+                )}
+                <input
+                  type="text"
+                  value={cssDraftName}
+                  onChange={(e) => setCssDraftName(e.target.value)}
+                  placeholder="Name"
+                  className="w-full bg-neutral-800 border border-neutral-600 rounded px-2 py-1 text-sm outline-none"
+                />
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => saveCssDraft()}
+                    disabled={!draftItem}
+                    className="flex-1 px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm disabled:opacity-40"
+                  >
+                    {editingCss ? "Update" : "Save"}
+                  </button>
+                  {editingCss ? (
+                    <button
+                      onClick={() => saveCssDraft(true)}
+                      disabled={!draftItem}
+                      className="flex-1 px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm disabled:opacity-40"
+                    >
+                      Save copy
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => cur && loadCssDraft(cur)}
+                      disabled={cur?.type !== "css"}
+                      className="flex-1 px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm disabled:opacity-40"
+                    >
+                      Load current
+                    </button>
+                  )}
+                  {cssDraft && (
+                    <button
+                      onClick={clearCssDraft}
+                      className="px-2 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm"
+                      title="Clear"
+                    >
+                      ✕
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {/* Gradient Builder */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="block text-sm font-medium">
+                    Gradient Builder
+                  </label>
+                  {builderModel ? (
+                    <button
+                      onClick={() => setBuilderModel(null)}
+                      className="text-xs opacity-70 hover:opacity-100"
+                    >
+                      Close
+                    </button>
+                  ) : null}
+                </div>
+                {builderModel ? (
+                  <GradientBuilder
+                    model={builderModel}
+                    onChange={updateBuilder}
+                  />
+                ) : (
+                  <button
+                    onClick={openBuilder}
+                    className="w-full px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm"
+                  >
+                    {cssDraft.trim()
+                      ? "Edit draft visually"
+                      : cur?.type === "css"
+                        ? `${cur.origin === "custom" ? "Edit" : "Fork"} "${cur.name}"`
+                        : "New gradient"}
+                  </button>
+                )}
+              </div>
+
               {/* Background */}
               <div className="space-y-2">
                 <label className="block text-sm font-medium">Background</label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={!!artOverride}
+                    disabled={!cur || !!draftItem}
+                    onChange={(e) => updateArt(e.target.checked ? {} : null)}
+                    className="rounded"
+                  />{" "}
+                  Override for {artLabel}
+                </label>
+                {cur?.art && (
+                  <div className="text-[11px] opacity-60">
+                    Art direction:{" "}
+                    {ART_TARGETS.filter((t) => cur.art?.[t.key])
+                      .map((t) => t.label)
+                      .join(", ")}
+                  </div>
+                )}
+                {artOverride && (
+                  <div>
+                    <label className="text-xs opacity-80">
+                      Source on {artLabel}
+                    </label>
+                    <select
+                      value={artOverride.itemId ?? ""}
+                      onChange={(e) =>
+                        updateArt({ itemId: e.target.value || undefined })
+                      }
+                      className="w-full bg-neutral-800 border border-neutral-600 rounded px-2 py-1 text-sm outline-none"
+                    >
+                      <option value="">Same background</option>
+                      {items
+                        .filter((x) => x.id !== cur?.id)
+                        .map((x) => (
+                          <option key={x.id} value={x.id}>
+                            {x.name}
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                )}
                 <div>
                   <label className="text-xs opacity-80">Fit</label>
                   <select
-                    value={fit}
-                    onChange={(e) => setFit(e.target.value as any)}
+                    value={art.fit}
+                    onChange={(e) =>
+                      setViewFit(e.target.value as "cover" | "contain" | "auto")
+                    }
                     className="w-full bg-neutral-800 border border-neutral-600 rounded px-2 py-1 text-sm outline-none"
                   >
                     <option value="cover">cover</option>
@@ -1033,11 +6166,37 @@ export default function MAI_Background_Chooser_Demo() {
                     <option value="auto">auto</option>
                   </select>
                 </div>
+                {cur?.type === "image" && (
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => setFocusPicking((v) => !v)}
+                      className="flex-1 px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm"
+                    >
+                      {focusPicking ? "Done" : "Focal point"}
+                      {cur.focus &&
+                        ` · ${Math.round(cur.focus.x)}% ${Math.round(cur.focus.y)}%`}
+                    </button>
+                    {cur.focus && (
+                      <button
+                        onClick={() => setFocus(null)}
+                        className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm"
+                      >
+                        Clear
+                      </button>
+                    )}
+                  </div>
+                )}
                 <div>
                   <label className="text-xs opacity-80">Position</label>
                   <select
-                    value={pos}
-                    onChange={(e) => setPos(e.target.value)}
+                    value={art.pos}
+                    disabled={!!art.item?.focus}
+                    title={
+                      art.item?.focus
+                        ? "The focal point sets the position"
+                        : undefined
+                    }
+                    onChange={(e) => setViewPos(e.target.value)}
                     className="w-full bg-neutral-800 border border-neutral-600 rounded px-2 py-1 text-sm outline-none"
                   >
                     {POSITIONS.map((p) => (
@@ -1111,14 +6270,16 @@ export default function MAI_Background_Chooser_Demo() {
               <div className="space-y-2">
                 <label className="block text-sm font-medium">Effects</label>
                 <div>
-                  <label className="text-xs opacity-80">Overlay</label>
+                  <label className="text-xs opacity-80">
+                    Overlay{artOverride ? ` (${artLabel})` : ""}
+                  </label>
                   <input
                     type="range"
                     min={0}
                     max={0.95}
                     step={0.01}
-                    value={overlay}
-                    onChange={(e) => setOverlay(parseFloat(e.target.value))}
+                    value={art.overlay}
+                    onChange={(e) => setViewOverlay(parseFloat(e.target.value))}
                     className="w-full"
                   />
                 </div>
@@ -1136,6 +6297,132 @@ export default function MAI_Background_Chooser_Demo() {
                 </div>
               </div>
 
+              {/* Compare */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="block text-sm font-medium">Compare</label>
+                  <button
+                    onClick={() => setCompareOpen((v) => !v)}
+                    disabled={!compareA && !compareB}
+                    className={`px-2 py-0.5 rounded-md text-xs disabled:opacity-40 ${compareView ? "bg-white/30" : "bg-white/10 hover:bg-white/20"}`}
+                  >
+                    {compareView ? "On" : "Off"}
+                  </button>
+                </div>
+                {!compareA && !compareB && (
+                  <div className="text-xs opacity-60">
+                    Use the A and B buttons on a thumbnail to pick the sides.
+                  </div>
+                )}
+                {(["A", "B"] as const).map((slot) => {
+                  const it = slot === "A" ? compareA : compareB;
+                  const fx = compareFx[slot];
+                  return (
+                    <div key={slot} className="space-y-1">
+                      <div className="flex items-center gap-2 text-xs">
+                        <span className="font-mono font-semibold">{slot}</span>
+                        <span className="flex-1 truncate opacity-80">
+                          {it?.name ?? "current background"}
+                        </span>
+                        {it && (
+                          <button
+                            onClick={() => setCompareSlot(slot, it.id)}
+                            className="opacity-70 hover:opacity-100"
+                            title="Clear"
+                          >
+                            ✕
+                          </button>
+                        )}
+                      </div>
+                      <label className="flex items-center gap-2 text-xs">
+                        <input
+                          type="checkbox"
+                          checked={!!fx}
+                          onChange={(e) =>
+                            setSideFx(
+                              slot,
+                              e.target.checked ? { overlay, blur } : null,
+                            )
+                          }
+                          className="rounded"
+                        />
+                        Own overlay &amp; blur
+                      </label>
+                      {fx && (
+                        <div className="grid grid-cols-2 gap-2">
+                          <input
+                            type="range"
+                            min={0}
+                            max={0.95}
+                            step={0.01}
+                            value={fx.overlay}
+                            title={`Overlay ${Math.round(fx.overlay * 100)}%`}
+                            onChange={(e) =>
+                              setSideFx(slot, {
+                                ...fx,
+                                overlay: parseFloat(e.target.value),
+                              })
+                            }
+                          />
+                          <input
+                            type="range"
+                            min={0}
+                            max={12}
+                            step={0.5}
+                            value={fx.blur}
+                            title={`Blur ${fx.blur}px`}
+                            onChange={(e) =>
+                              setSideFx(slot, {
+                                ...fx,
+                                blur: parseFloat(e.target.value),
+                              })
+                            }
+                          />
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {/* Multi-up Grid */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="block text-sm font-medium">
+                    Grid{" "}
+                    <span className="font-normal opacity-60">
+                      ({multiItems.length}/{MULTI_UP_MAX})
+                    </span>
+                  </label>
+                  <div className="flex gap-1">
+                    {multiItems.length > 0 && (
+                      <button
+                        onClick={() => {
+                          setMultiIds([]);
+                          setMultiOpen(false);
+                        }}
+                        className="px-2 py-0.5 rounded-md bg-white/10 hover:bg-white/20 text-xs"
+                      >
+                        Clear
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setMultiOpen((v) => !v)}
+                      disabled={multiItems.length < MULTI_UP_MIN}
+                      className={`px-2 py-0.5 rounded-md text-xs disabled:opacity-40 ${multiView ? "bg-white/30" : "bg-white/10 hover:bg-white/20"}`}
+                    >
+                      {multiView ? "On" : "Off"}
+                    </button>
+                  </div>
+                </div>
+                {multiItems.length < MULTI_UP_MIN && (
+                  <div className="text-xs opacity-60">
+                    Use + on {MULTI_UP_MIN}–{MULTI_UP_MAX} thumbnails to tile
+                    them side by side.
+                  </div>
+                )}
+              </div>
+
               {/* Device */}
               <div className="space-y-2">
                 <label className="block text-sm font-medium">
@@ -1151,17 +6438,276 @@ export default function MAI_Background_Chooser_Demo() {
                       {d.label}
                     </option>
                   ))}
+                  {[...new Set(DEVICE_CATALOGUE.map((d) => d.group!))].map(
+                    (group) => (
+                      <optgroup key={group} label={group}>
+                        {DEVICE_CATALOGUE.filter((d) => d.group === group).map(
+                          (d) => (
+                            <option key={d.key} value={d.key}>
+                              {d.label} · {d.w}×{d.h}
+                            </option>
+                          ),
+                        )}
+                      </optgroup>
+                    ),
+                  )}
+                  {customDevices.length > 0 && (
+                    <optgroup label="Custom">
+                      {customDevices.map((d) => (
+                        <option key={d.key} value={d.key}>
+                          {d.label} · {d.w}×{d.h}
+                        </option>
+                      ))}
+                    </optgroup>
+                  )}
                 </select>
-                {device !== "fluid" && (
+                <div className="text-xs opacity-70">
+                  {deviceProfile.w === "100%"
+                    ? `${frameSize.w}×${frameSize.h}`
+                    : `${deviceProfile.w}×${deviceProfile.h}`}{" "}
+                  @{deviceProfile.dpr}x
+                  {deviceProfile.insets &&
+                    ` · safe area ${(["top", "right", "bottom", "left"] as const).map((k) => orientedInsets(deviceProfile, rotate)[k]).join("/")}`}
+                </div>
+                {deviceProfile.w !== "100%" && (
+                  <div className="space-y-1 text-xs">
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                      <span className="opacity-70">Chrome</span>
+                      {(
+                        [
+                          ["system", "Status & home"],
+                          ["urlBar", "URL bar"],
+                          ["keyboard", "Keyboard"],
+                        ] as const
+                      ).map(([k, label]) => (
+                        <label key={k} className="flex items-center gap-1">
+                          <input
+                            type="checkbox"
+                            checked={chromeOpts[k]}
+                            onChange={(e) =>
+                              setChromeOpts({
+                                ...chromeOpts,
+                                [k]: e.target.checked,
+                              })
+                            }
+                            className="rounded"
+                          />
+                          {label}
+                        </label>
+                      ))}
+                    </div>
+                    {deviceChrome && (
+                      <div
+                        className={
+                          chromeHidden.length
+                            ? "text-amber-300"
+                            : "text-green-400"
+                        }
+                      >
+                        {chromeHidden.length
+                          ? `Hidden by chrome: ${chromeHidden.join(", ")}`
+                          : "Hero and Buy Tickets are clear of chrome"}
+                      </div>
+                    )}
+                  </div>
+                )}
+                {logicalSize && (
+                  <div className="flex items-center gap-1 text-xs">
+                    <span className="opacity-70 mr-1">Zoom</span>
+                    <button
+                      onClick={() => stepZoom(-1)}
+                      className="px-2 py-0.5 rounded bg-white/10 hover:bg-white/20"
+                      title="Zoom out (−)"
+                    >
+                      −
+                    </button>
+                    <select
+                      value={String(zoom)}
+                      onChange={(e) =>
+                        setZoom(
+                          e.target.value === "fit"
+                            ? "fit"
+                            : Number(e.target.value),
+                        )
+                      }
+                      className="flex-1 bg-neutral-800 border border-neutral-600 rounded px-1 py-0.5 outline-none"
+                    >
+                      <option value="fit">
+                        Fit ({Math.round(fitScale * 100)}%)
+                      </option>
+                      {ZOOM_LEVELS.map((z) => (
+                        <option key={z} value={z}>
+                          {z}%
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => stepZoom(1)}
+                      className="px-2 py-0.5 rounded bg-white/10 hover:bg-white/20"
+                      title="Zoom in (+)"
+                    >
+                      +
+                    </button>
+                  </div>
+                )}
+                <div className="flex gap-1">
+                  {deviceProfile.w !== "100%" && (
+                    <button
+                      onClick={() => setRotate((r) => !r)}
+                      className="flex-1 px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm"
+                    >
+                      Rotate
+                    </button>
+                  )}
                   <button
-                    onClick={() => setRotate((r) => !r)}
-                    className="w-full px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm"
+                    onClick={newDeviceDraft}
+                    className="flex-1 px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm"
                   >
-                    Rotate
+                    New
                   </button>
+                  {customDevices.some((d) => d.key === device) && (
+                    <button
+                      onClick={() =>
+                        setDeviceDraft(
+                          customDevices.find((d) => d.key === device) ?? null,
+                        )
+                      }
+                      className="flex-1 px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm"
+                    >
+                      Edit
+                    </button>
+                  )}
+                </div>
+                {deviceDraft && (
+                  <div className="space-y-2 rounded-md border border-white/10 p-2">
+                    <input
+                      type="text"
+                      value={deviceDraft.label}
+                      onChange={(e) =>
+                        setDeviceDraft({
+                          ...deviceDraft,
+                          label: e.target.value,
+                        })
+                      }
+                      placeholder="Name"
+                      className="w-full bg-neutral-800 border border-neutral-600 rounded px-2 py-1 text-sm outline-none"
+                    />
+                    <div className="grid grid-cols-3 gap-1 text-xs">
+                      {(["w", "h", "dpr"] as const).map((k) => (
+                        <label key={k} className="space-y-0.5">
+                          <span className="opacity-70">
+                            {k === "w" ? "Width" : k === "h" ? "Height" : "DPR"}
+                          </span>
+                          <input
+                            type="number"
+                            min={k === "dpr" ? 0.5 : 100}
+                            step={k === "dpr" ? 0.25 : 1}
+                            value={deviceDraft[k]}
+                            onChange={(e) =>
+                              setDeviceDraft({
+                                ...deviceDraft,
+                                [k]: Number(e.target.value),
+                              })
+                            }
+                            className="w-full bg-neutral-800 border border-neutral-600 rounded px-1 py-0.5 outline-none"
+                          />
+                        </label>
+                      ))}
+                    </div>
+                    <div className="text-xs opacity-70">Safe area insets</div>
+                    <div className="grid grid-cols-4 gap-1 text-xs">
+                      {(["top", "right", "bottom", "left"] as const).map(
+                        (k) => (
+                          <input
+                            key={k}
+                            type="number"
+                            min={0}
+                            title={k}
+                            placeholder={k}
+                            value={deviceDraft.insets?.[k] ?? 0}
+                            onChange={(e) =>
+                              setDeviceDraft({
+                                ...deviceDraft,
+                                insets: {
+                                  top: 0,
+                                  right: 0,
+                                  bottom: 0,
+                                  left: 0,
+                                  ...deviceDraft.insets,
+                                  [k]: Number(e.target.value),
+                                },
+                              })
+                            }
+                            className="w-full bg-neutral-800 border border-neutral-600 rounded px-1 py-0.5 outline-none"
+                          />
+                        ),
+                      )}
+                    </div>
+                    <div className="flex gap-1">
+                      <button
+                        onClick={saveDeviceDraft}
+                        className="flex-1 px-3 py-1 rounded-md bg-white/20 hover:bg-white/30 text-sm"
+                      >
+                        Save
+                      </button>
+                      {customDevices.some((d) => d.key === deviceDraft.key) && (
+                        <button
+                          onClick={() => deleteCustomDevice(deviceDraft.key)}
+                          className="flex-1 px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm"
+                        >
+                          Delete
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setDeviceDraft(null)}
+                        className="flex-1 px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
                 )}
               </div>
 
+              {/* Breakpoint Sweep */}
+              <div className="space-y-2">
+                <label className="block text-sm font-medium">
+                  Breakpoint Sweep
+                </label>
+                <div className="grid grid-cols-3 gap-1 text-xs">
+                  {(["from", "to", "step"] as const).map((k) => (
+                    <label key={k} className="space-y-0.5">
+                      <span className="opacity-70 capitalize">{k}</span>
+                      <input
+                        type="number"
+                        min={k === "step" ? SWEEP_MIN_STEP : SWEEP_MIN_WIDTH}
+                        step={k === "step" ? 8 : 10}
+                        value={sweepRange[k]}
+                        onChange={(e) =>
+                          setSweepRange({
+                            ...sweepRange,
+                            [k]: Number(e.target.value),
+                          })
+                        }
+                        disabled={sweepRunning}
+                        className="w-full bg-neutral-800 border border-neutral-600 rounded px-1 py-0.5 outline-none"
+                      />
+                    </label>
+                  ))}
+                </div>
+                <button
+                  onClick={() =>
+                    sweepRunning ? (sweepCancelRef.current = true) : runSweep()
+                  }
+                  disabled={!sweepRunning && !shown}
+                  className="w-full px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm disabled:opacity-40"
+                >
+                  {sweepRunning
+                    ? `Stop (${sweepSize?.w ?? ""}px)`
+                    : `Sweep ${sweepRange.from}→${sweepRange.to}px`}
+                </button>
+              </div>
+
               {/* Actions */}
               <div className="space-y-1">
                 <label className="block text-sm font-medium">Actions</label>
@@ -1169,7 +6715,7 @@ export default function MAI_Background_Chooser_Demo() {
                   onClick={() => {
                     if (!cur) return;
                     navigator.clipboard?.writeText(
-                      cssSnippet(cur, fit, repeat, pos, overlay),
+                      cssSnippet(cur, fit, repeat, pos, overlay, items),
                     );
                     setToast("CSS copied");
                     setTimeout(() => setToast(null), 1200);
@@ -1179,40 +6725,130 @@ export default function MAI_Background_Chooser_Demo() {
                   Copy CSS
                 </button>
                 <button
-                  onClick={() => {
-                    const state: ExportState = {
-                      items: normalizeItems(items),
-                      index,
-                      fit,
-                      repeat,
-                      pos,
-                      overlay,
-                      blur,
-                      device,
-                      rotate,
-                      cardOpacity,
-                      darkMode,
-                      cardColor,
-                      cardCount,
-                      generatedCards,
-                      sidebarCollapsed,
-                    };
-                    downloadBlob(
-                      "mai-background.json",
-                      JSON.stringify(state, null, 2),
-                    );
-                    setToast("Exported JSON");
-                    setTimeout(() => setToast(null), 1200);
-                  }}
+                  onClick={() => setCodeOpen(true)}
+                  disabled={!cur}
+                  className="w-full px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm disabled:opacity-40"
+                >
+                  Export code…
+                </button>
+                <button
+                  onClick={copyPermalink}
+                  className="w-full px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm"
+                >
+                  Copy link
+                </button>
+                <button
+                  onClick={exportJSON}
                   className="w-full px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm"
                 >
                   Export JSON
                 </button>
                 <button
-                  onClick={doExportPNG}
-                  className="w-full px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm"
+                  onClick={() => importInputRef.current?.click()}
+                  className="w-full px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm"
+                >
+                  Import JSON
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const f = e.target.files?.[0];
+                    if (f) importFile(f);
+                    e.target.value = "";
+                  }}
+                />
+                <div className="flex gap-1">
+                  <button
+                    onClick={doExportPNG}
+                    className="flex-1 px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm"
+                  >
+                    Export PNG
+                  </button>
+                  <select
+                    value={exportScale}
+                    onChange={(e) =>
+                      setExportScale(Number(e.target.value) as 0 | 1 | 2 | 3)
+                    }
+                    title="Pixel ratio"
+                    className="bg-neutral-800 border border-neutral-600 rounded px-1 text-sm outline-none"
+                  >
+                    <option value={1}>1x</option>
+                    <option value={2}>2x</option>
+                    <option value={3}>3x</option>
+                    <option value={0}>{deviceProfile.dpr}x (device)</option>
+                  </select>
+                  {deviceChrome && (
+                    <label
+                      className="flex items-center gap-1 text-xs"
+                      title="Include device chrome in the PNG"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={exportChrome}
+                        onChange={(e) => setExportChrome(e.target.checked)}
+                        className="rounded"
+                      />
+                      Chrome
+                    </label>
+                  )}
+                  {heatmapUrl && (
+                    <label
+                      className="flex items-center gap-1 text-xs"
+                      title="Include the contrast heatmap in the PNG"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={exportHeatmap}
+                        onChange={(e) => setExportHeatmap(e.target.checked)}
+                        className="rounded"
+                      />
+                      Heatmap
+                    </label>
+                  )}
+                </div>
+                <div className="flex gap-1">
+                  <button
+                    onClick={exportContactSheet}
+                    disabled={sheetBusy}
+                    className="flex-1 px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm disabled:opacity-40"
+                    title="Every chosen background as a captioned tile"
+                  >
+                    Contact sheet
+                  </button>
+                  <select
+                    value={sheetSource}
+                    onChange={(e) =>
+                      setSheetSource(
+                        e.target.value as "favorites" | "grid" | "all",
+                      )
+                    }
+                    title="Backgrounds on the sheet"
+                    className="bg-neutral-800 border border-neutral-600 rounded px-1 text-sm outline-none"
+                  >
+                    <option value="favorites">★</option>
+                    <option value="grid">Grid</option>
+                    <option value="all">All</option>
+                  </select>
+                  <select
+                    value={sheetFormat}
+                    onChange={(e) =>
+                      setSheetFormat(e.target.value as "png" | "pdf")
+                    }
+                    title="Format"
+                    className="bg-neutral-800 border border-neutral-600 rounded px-1 text-sm outline-none"
+                  >
+                    <option value="png">PNG</option>
+                    <option value="pdf">PDF</option>
+                  </select>
+                </div>
+                <button
+                  onClick={() => setReportOpen((v) => !v)}
+                  className={`w-full px-3 py-1 rounded-md text-sm ${reportOpen ? "bg-white/30" : "bg-white/10 hover:bg-white/20"}`}
                 >
-                  Export PNG
+                  Image report
                 </button>
                 <div className="flex gap-1">
                   <button
@@ -1221,6 +6857,18 @@ export default function MAI_Background_Chooser_Demo() {
                   >
                     Contrast
                   </button>
+                  <button
+                    onClick={() => setHeatmapOpen((v) => !v)}
+                    className={`flex-1 px-3 py-1 rounded-md text-sm ${heatmapOpen ? "bg-white/30" : "bg-white/10 hover:bg-white/20"}`}
+                  >
+                    Heatmap
+                  </button>
+                  <button
+                    onClick={() => setHistoryOpen((v) => !v)}
+                    className={`flex-1 px-3 py-1 rounded-md text-sm ${historyOpen ? "bg-white/30" : "bg-white/10 hover:bg-white/20"}`}
+                  >
+                    History
+                  </button>
                   <button
                     onClick={() => setHelpOpen((v) => !v)}
                     className="flex-1 px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm"
@@ -1248,6 +6896,11 @@ export default function MAI_Background_Chooser_Demo() {
                   }
                   onRemove={() => removeItem(item.id)}
                   onFav={() => toggleFavorite(item.id)}
+                  slotA={item.id === slotA}
+                  slotB={item.id === slotB}
+                  onSetSlot={(slot) => setCompareSlot(slot, item.id)}
+                  picked={multiIds.includes(item.id)}
+                  onPick={() => toggleMultiPick(item.id)}
                 />
               ))}
             </div>
@@ -1256,179 +6909,920 @@ export default function MAI_Background_Chooser_Demo() {
       </div>
 
       {/* Main Content */}
-      <main className="flex-1 flex items-center justify-center p-4 md:p-8 overflow-auto">
+      <main className="relative flex-1 flex p-4 md:p-8 overflow-auto">
         <div
-          className="relative rounded-xl shadow-2xl transition-all duration-300"
-          style={getDeviceCanvasStyle()}
-          onDragOver={(e) => {
-            e.preventDefault();
-            e.stopPropagation();
-          }}
-          onDrop={(e) => {
-            e.preventDefault();
-            e.stopPropagation();
-            addUploads(e.dataTransfer?.files);
-          }}
+          ref={viewportRef}
+          className="absolute inset-4 md:inset-8 pointer-events-none"
+        />
+        <div
+          className="relative m-auto shrink-0"
+          style={
+            logicalSize
+              ? {
+                  width: logicalSize.w * frameScale,
+                  height: logicalSize.h * frameScale,
+                }
+              : { width: "100%", height: "100%" }
+          }
         >
           <div
-            className="absolute inset-0 z-0 pointer-events-none"
-            style={currentStyle}
-          />
-          {(slotA != null || slotB != null) && (
+            ref={frameRef}
+            className={`relative rounded-xl shadow-2xl transition-all duration-300 ${multiView ? "invisible" : ""}`}
+            style={getDeviceCanvasStyle()}
+            onDragOver={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              const files = Array.from(e.dataTransfer?.files ?? []);
+              const json = files.find(
+                (f) => f.type === "application/json" || /\.json$/i.test(f.name),
+              );
+              if (json) importFile(json);
+              const dt = new DataTransfer();
+              files.filter((f) => f !== json).forEach((f) => dt.items.add(f));
+              addUploads(dt.files);
+            }}
+          >
+            {compareView ? (
+              <>
+                <div
+                  className="absolute inset-0 pointer-events-none"
+                  style={{
+                    clipPath: `inset(0 ${(1 - compareView.split) * 100}% 0 0)`,
+                  }}
+                >
+                  <div className="absolute inset-0" style={compareStyleA!} />
+                  <div
+                    className="absolute inset-0"
+                    style={{
+                      background: `rgba(0,0,0,${compareView.fxA.overlay})`,
+                    }}
+                  />
+                </div>
+                <div
+                  className="absolute inset-0 pointer-events-none"
+                  style={{
+                    clipPath: `inset(0 0 0 ${compareView.split * 100}%)`,
+                  }}
+                >
+                  <div className="absolute inset-0" style={compareStyleB!} />
+                  <div
+                    className="absolute inset-0"
+                    style={{
+                      background: `rgba(0,0,0,${compareView.fxB.overlay})`,
+                    }}
+                  />
+                </div>
+              </>
+            ) : (
+              <>
+                <div
+                  className="absolute inset-0 z-0 pointer-events-none"
+                  style={currentStyle}
+                />
+                <div
+                  className="absolute inset-0"
+                  style={{ background: `rgba(0,0,0,${art.overlay})` }}
+                />
+              </>
+            )}
+            {heatmapUrl && (
+              <img
+                src={heatmapUrl}
+                alt=""
+                className="absolute inset-0 w-full h-full pointer-events-none"
+              />
+            )}
+            {grid && (
+              <div className="absolute inset-0 bg-[linear-gradient(rgba(255,255,255,0.08)_1px,transparent_1px),linear-gradient(90deg,rgba(255,255,255,0.08)_1px,transparent_1px)] bg-[size:40px_40px]" />
+            )}
+
+            <div
+              ref={contentRef}
+              className="relative z-10 h-full overflow-y-auto"
+              onScroll={
+                meterOpen || deviceChrome
+                  ? () => setLayoutTick((t) => t + 1)
+                  : undefined
+              }
+            >
+              {renderPageContent(mainPageRefs)}
+            </div>
+
+            {deviceChrome && (
+              <div className="absolute inset-0 z-20 pointer-events-none">
+                {deviceChrome.parts.map((p) => (
+                  <div
+                    key={p.kind}
+                    className={`absolute ${CHROME_CLASSES[p.kind]}`}
+                    style={{ left: p.x, top: p.y, width: p.w, height: p.h }}
+                  >
+                    {p.kind === "status" && (
+                      <>
+                        <span>9:41</span>
+                        <span className="w-6 h-3 rounded-sm border border-white/80" />
+                      </>
+                    )}
+                    {p.kind === "url" && (
+                      <span className="rounded-full bg-black/10 px-4 py-1">
+                        museum.example
+                      </span>
+                    )}
+                    {p.kind === "keyboard" &&
+                      keyboardKeys(p).map((k) => (
+                        <span
+                          key={k.label || "space"}
+                          className="absolute flex items-center justify-center rounded bg-white text-sm text-neutral-800 shadow-sm"
+                          style={{
+                            left: k.x - p.x,
+                            top: k.y - p.y,
+                            width: k.w,
+                            height: k.h,
+                          }}
+                        >
+                          {k.label}
+                        </span>
+                      ))}
+                  </div>
+                ))}
+                <div
+                  className="absolute border border-dashed border-emerald-300/70"
+                  style={{
+                    left: deviceChrome.visible.left,
+                    top: deviceChrome.visible.top,
+                    right: deviceChrome.visible.right,
+                    bottom: deviceChrome.visible.bottom,
+                  }}
+                  title="Visible area"
+                />
+              </div>
+            )}
+
+            {compareView && (
+              <>
+                <div className="absolute top-2 left-2 z-20 max-w-[45%] truncate rounded bg-black/65 px-2 py-0.5 text-xs pointer-events-none">
+                  A · {compareView.a?.name ?? "—"}
+                  {compareFx.A
+                    ? ` · ${Math.round(compareFx.A.overlay * 100)}%`
+                    : ""}
+                </div>
+                <div className="absolute top-2 right-2 z-20 max-w-[45%] truncate rounded bg-black/65 px-2 py-0.5 text-xs pointer-events-none">
+                  B · {compareView.b?.name ?? "—"}
+                  {compareFx.B
+                    ? ` · ${Math.round(compareFx.B.overlay * 100)}%`
+                    : ""}
+                </div>
+                <div
+                  title="Drag to move the divider, double-click to centre"
+                  className="absolute inset-y-0 z-20 w-4 -ml-2 flex justify-center cursor-col-resize touch-none"
+                  style={{ left: `${compareView.split * 100}%` }}
+                  onPointerDown={(e) =>
+                    e.currentTarget.setPointerCapture(e.pointerId)
+                  }
+                  onPointerMove={(e) => {
+                    const r = frameRef.current?.getBoundingClientRect();
+                    if (!r || !e.currentTarget.hasPointerCapture(e.pointerId)) {
+                      return;
+                    }
+                    const x = (e.clientX - r.left) / r.width;
+                    setCompareSplit(Math.min(0.98, Math.max(0.02, x)));
+                  }}
+                  onDoubleClick={() => setCompareSplit(0.5)}
+                >
+                  <div className="w-0.5 h-full bg-white/80 shadow" />
+                  <div className="absolute top-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-white text-black text-xs flex items-center justify-center shadow">
+                    ⇔
+                  </div>
+                </div>
+              </>
+            )}
+
+            {heatmapOpen && (
+              <div className="absolute left-2 bottom-2 z-20 rounded-md bg-black/75 border border-white/15 px-2 py-1.5 text-[11px] space-y-1">
+                <div className="flex items-center gap-1">
+                  <span className="opacity-70">Heatmap for</span>
+                  {(["white", "black"] as const).map((t) => (
+                    <button
+                      key={t}
+                      onClick={() => setHeatmapText(t)}
+                      className={`px-1.5 rounded ${heatmapText === t ? "bg-white/30" : "bg-white/10 hover:bg-white/20"}`}
+                    >
+                      {t}
+                    </button>
+                  ))}
+                  <span className="opacity-70">text</span>
+                </div>
+                <div className="flex gap-2">
+                  {HEATMAP_BANDS.map((b) => (
+                    <span key={b.label} className="flex items-center gap-1">
+                      <span
+                        className="inline-block w-2.5 h-2.5 rounded-sm"
+                        style={{ background: `rgb(${b.color.join(",")})` }}
+                      />
+                      {b.label}
+                    </span>
+                  ))}
+                </div>
+                {!heatmapBase && (
+                  <div className="opacity-70">
+                    Background pixels unavailable for this image.
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {multiView && (
+          <div
+            ref={multiAreaRef}
+            className="absolute inset-4 md:inset-8 flex items-center justify-center"
+          >
             <div
-              className="absolute inset-0 transition-all duration-300"
+              className="grid"
               style={{
-                ...compareStyle,
-                clipPath: showB ? "inset(0 0 0 50%)" : "inset(0 50% 0 0)",
+                gridTemplateColumns: `repeat(${multiLayout.cols}, ${frameSize.w * multiLayout.scale}px)`,
+                gap: MULTI_UP_GAP,
               }}
-            />
-          )}
+            >
+              {multiItems.map((it, i) => {
+                const c = multiContrast[it.id];
+                const v = artFor(it);
+                return (
+                  <div
+                    key={it.id}
+                    className="relative overflow-hidden rounded-lg shadow-xl"
+                    style={{
+                      width: frameSize.w * multiLayout.scale,
+                      height: frameSize.h * multiLayout.scale,
+                    }}
+                  >
+                    <div
+                      ref={i === 0 ? multiFrameRef : undefined}
+                      className="absolute left-0 top-0 origin-top-left"
+                      style={{
+                        width: frameSize.w,
+                        height: frameSize.h,
+                        transform: `scale(${multiLayout.scale})`,
+                      }}
+                    >
+                      <div
+                        className="absolute inset-0"
+                        style={buildBackgroundStyle(v.item, {
+                          fit: v.fit,
+                          repeat,
+                          pos: v.pos,
+                          blur,
+                        })}
+                      />
+                      <div
+                        className="absolute inset-0"
+                        style={{ background: `rgba(0,0,0,${v.overlay})` }}
+                      />
+                      <div className="relative z-10 h-full overflow-hidden pointer-events-none">
+                        {renderPageContent(i === 0 ? multiPageRefs : undefined)}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => {
+                        setIndex(items.findIndex((x) => x.id === it.id));
+                        setMultiOpen(false);
+                      }}
+                      title="Open in the device canvas"
+                      className="absolute top-2 left-2 z-20 max-w-[70%] truncate rounded bg-black/65 hover:bg-black/80 px-2 py-0.5 text-xs"
+                    >
+                      {i + 1}. {it.name}
+                    </button>
+                    <div className="absolute bottom-2 left-2 z-20 rounded bg-black/70 px-2 py-0.5 text-[11px] font-mono">
+                      {c ? (
+                        <>
+                          <span
+                            className={
+                              c.page >= 4.5 ? "text-green-400" : "text-red-400"
+                            }
+                          >
+                            page {c.page.toFixed(1)}:1
+                          </span>
+                          {" · "}
+                          <span
+                            className={
+                              c.cards >= 4.5 ? "text-green-400" : "text-red-400"
+                            }
+                          >
+                            cards {c.cards.toFixed(1)}:1
+                          </span>
+                        </>
+                      ) : it.id in multiContrast ? (
+                        "contrast unavailable"
+                      ) : (
+                        "measuring…"
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {focusPicking && cur?.type === "image" && cur.src && (
+          <div className="absolute inset-4 md:inset-8 z-30 flex flex-col items-center justify-center gap-3 rounded-lg bg-black/85 backdrop-blur p-4">
+            <div className="text-xs opacity-80">
+              Click the image to set the focal point of {cur.name}. Outlines
+              show what each device shows under cover.
+            </div>
+            <div className="relative">
+              <img
+                src={cur.src}
+                alt={cur.name}
+                onLoad={(e) =>
+                  setFocusNatural({
+                    w: e.currentTarget.naturalWidth,
+                    h: e.currentTarget.naturalHeight,
+                  })
+                }
+                onClick={(e) => {
+                  const r = e.currentTarget.getBoundingClientRect();
+                  const pct = (v: number) =>
+                    Math.round(Math.min(100, Math.max(0, v * 100)) * 10) / 10;
+                  setFocus({
+                    x: pct((e.clientX - r.left) / r.width),
+                    y: pct((e.clientY - r.top) / r.height),
+                  });
+                }}
+                className="block max-w-full max-h-[70vh] cursor-crosshair"
+              />
+              {focusCrops.map((c) => (
+                <div
+                  key={c.key}
+                  className="absolute border-2 pointer-events-none"
+                  style={{
+                    left: `${c.rect.x * 100}%`,
+                    top: `${c.rect.y * 100}%`,
+                    width: `${c.rect.w * 100}%`,
+                    height: `${c.rect.h * 100}%`,
+                    borderColor: c.color,
+                  }}
+                >
+                  <span
+                    className="absolute left-0 top-0 px-1 text-[10px] font-mono text-black"
+                    style={{ background: c.color }}
+                  >
+                    {c.label}
+                  </span>
+                </div>
+              ))}
+              {cur.focus && (
+                <div
+                  className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-white bg-white/30 shadow pointer-events-none"
+                  style={{ left: `${cur.focus.x}%`, top: `${cur.focus.y}%` }}
+                />
+              )}
+            </div>
+            <button
+              onClick={() => setFocusPicking(false)}
+              className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-sm"
+            >
+              Done
+            </button>
+          </div>
+        )}
+
+        {sweepFrames && !sweepRunning && sweepFrames.length > 0 && (
+          <div className="absolute left-4 right-4 bottom-4 z-30 rounded-lg border border-white/15 bg-black/85 backdrop-blur p-3 space-y-2">
+            <div className="flex items-center justify-between text-xs">
+              <span className="font-semibold opacity-80">
+                Sweep {sweepFrames[0].width}→
+                {sweepFrames[sweepFrames.length - 1].width}px ·{" "}
+                {sweepFrames.filter((f) => f.changes.length).length} changes
+              </span>
+              <button
+                onClick={() => setSweepFrames(null)}
+                className="px-1.5 opacity-70 hover:opacity-100"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {sweepFrames.map((f) => (
+                <div
+                  key={f.width}
+                  className={`shrink-0 rounded-md border p-1 text-[10px] leading-tight space-y-0.5 ${f.changes.length ? "border-amber-300/70" : "border-white/10"}`}
+                  style={{
+                    width: Math.max(
+                      90,
+                      (f.width / f.height) * SWEEP_THUMB_HEIGHT * 0.6,
+                    ),
+                  }}
+                >
+                  <img
+                    src={f.thumb}
+                    alt={`${f.width}px`}
+                    className="w-full rounded-sm"
+                  />
+                  <div className="font-mono">
+                    {f.width}px · {f.cols} col
+                  </div>
+                  {f.page != null && f.cards != null && (
+                    <div
+                      className={`font-mono ${Math.min(f.page, f.cards) >= 4.5 ? "text-green-400" : "text-red-400"}`}
+                    >
+                      {f.page.toFixed(1)} / {f.cards.toFixed(1)}
+                    </div>
+                  )}
+                  {f.changes.map((c) => (
+                    <div key={c} className="text-amber-200">
+                      {c}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </main>
+
+      {/* Global Overlays */}
+      {pendingImport && (
+        <div
+          className="fixed inset-0 z-[60] bg-black/85 flex items-center justify-center p-4"
+          onClick={() => setPendingImport(null)}
+        >
           <div
-            className="absolute inset-0"
-            style={{ background: `rgba(0,0,0,${overlay})` }}
-          />
-          {grid && (
-            <div className="absolute inset-0 bg-[linear-gradient(rgba(255,255,255,0.08)_1px,transparent_1px),linear-gradient(90deg,rgba(255,255,255,0.08)_1px,transparent_1px)] bg-[size:40px_40px]" />
+            className="max-w-md w-full bg-neutral-900 p-6 rounded-lg border border-white/10 space-y-3"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h2 className="text-xl font-semibold text-white">
+              Import {pendingImport.fileName}
+            </h2>
+            <p className="text-sm text-white/80">
+              {pendingImport.state.items.length} background
+              {pendingImport.state.items.length === 1 ? "" : "s"},{" "}
+              {pendingImport.state.device} preview, overlay{" "}
+              {Math.round(pendingImport.state.overlay * 100)}%.
+            </p>
+            {describeMigrationReport(pendingImport.report) && (
+              <p className="text-xs text-amber-200">
+                {describeMigrationReport(pendingImport.report)}
+              </p>
+            )}
+            <div className="flex gap-2 pt-1">
+              <button
+                onClick={() => {
+                  replaceSession(pendingImport.state);
+                  setPendingImport(null);
+                }}
+                className="flex-1 px-3 py-1.5 rounded-md bg-white/20 hover:bg-white/30 text-sm"
+              >
+                Replace session
+              </button>
+              <button
+                onClick={() => {
+                  mergeBackgrounds(pendingImport.state.items);
+                  setPendingImport(null);
+                }}
+                className="flex-1 px-3 py-1.5 rounded-md bg-white/10 hover:bg-white/20 text-sm"
+              >
+                Merge backgrounds
+              </button>
+              <button
+                onClick={() => setPendingImport(null)}
+                className="px-3 py-1.5 rounded-md bg-white/10 hover:bg-white/20 text-sm"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+      {helpOpen && (
+        <div
+          className="fixed inset-0 z-[60] bg-black/85 flex items-center justify-center p-4"
+          onClick={() => setHelpOpen(false)}
+        >
+          <div className="max-w-3xl w-full bg-neutral-900 p-6 rounded-lg border border-white/10">
+            <h2 className="text-2xl font-semibold text-white">Shortcuts</h2>
+            <ul className="mt-3 grid grid-cols-2 gap-x-4 gap-y-1 text-white/90 text-sm">
+              <li>
+                <span className="font-mono inline-block w-12">←/→</span> Select
+                background
+              </li>
+              <li>
+                <span className="font-mono inline-block w-12">1–9</span> Pick
+                thumbnail
+              </li>
+              <li>
+                <span className="font-mono inline-block w-12">F</span> Favorite
+                current
+              </li>
+              <li>
+                <span className="font-mono inline-block w-12">C</span> Toggle
+                A/B compare
+              </li>
+              <li>
+                <span className="font-mono inline-block w-12">Y</span> Copy CSS
+              </li>
+              <li>
+                <span className="font-mono inline-block w-12">J</span> Export
+                JSON
+              </li>
+              <li>
+                <span className="font-mono inline-block w-12">+ / −</span> Zoom
+                device canvas
+              </li>
+              <li>
+                <span className="font-mono inline-block w-12">0</span> Fit
+                device canvas
+              </li>
+              <li>
+                <span className="font-mono inline-block w-12">G</span> Toggle
+                multi-up grid
+              </li>
+              <li>
+                <span className="font-mono inline-block w-12">Ctrl+Z</span> Undo
+                (Shift to redo)
+              </li>
+              <li>
+                <span className="font-mono inline-block w-12">L</span> Copy link
+              </li>
+              <li>
+                <span className="font-mono inline-block w-12">I</span> Import
+                JSON
+              </li>
+              <li>
+                <span className="font-mono inline-block w-12">P</span> Export
+                PNG
+              </li>
+              <li>
+                <span className="font-mono inline-block w-12">M</span> Toggle
+                contrast meter
+              </li>
+              <li>
+                <span className="font-mono inline-block w-12">H</span> Toggle
+                contrast heatmap
+              </li>
+              <li>
+                <span className="font-mono inline-block w-12">S</span> Save
+                state
+              </li>
+              <li>
+                <span className="font-mono inline-block w-12">?</span> Toggle
+                this help
+              </li>
+            </ul>
+            <p className="mt-4 text-xs opacity-70">Click anywhere to close.</p>
+          </div>
+        </div>
+      )}
+
+      {meterOpen && (
+        <div className="fixed right-4 top-4 z-[55] rounded-lg border border-white/15 bg-black/80 backdrop-blur px-3 py-2 text-xs space-y-1">
+          <div className="font-semibold opacity-80">
+            Contrast Checks{" "}
+            <span className="font-normal opacity-60">
+              (
+              {comparing
+                ? "paused"
+                : contrastMeasured
+                  ? "measured"
+                  : "estimated"}
+              )
+            </span>
+          </div>
+          {comparing ? (
+            <p className="max-w-[14rem] opacity-70">
+              A/B compare shows two backgrounds under the same text. Turn it off
+              to check contrast for one of them.
+            </p>
+          ) : (
+            <>
+              <div>
+                Page text (white):{" "}
+                <span
+                  className={`font-mono ${contrastPage.passAA ? "text-green-400" : "text-red-400"}`}
+                >
+                  {contrastPage.ratio.toFixed(2)}:1
+                </span>
+              </div>
+              <div>
+                Card text ({cardTextColor}):{" "}
+                <span
+                  className={`font-mono ${contrastCard.passAA ? "text-green-400" : "text-red-400"}`}
+                >
+                  {contrastCard.ratio.toFixed(2)}:1
+                </span>
+              </div>
+              <div className="flex items-center gap-1 pt-1">
+                <select
+                  value={fixTarget}
+                  onChange={(e) => setFixTarget(e.target.value as WcagTarget)}
+                  className="bg-neutral-800 border border-neutral-600 rounded px-1 py-0.5 outline-none"
+                >
+                  {(Object.keys(WCAG_TARGETS) as WcagTarget[]).map((t) => (
+                    <option key={t} value={t}>
+                      {t} ({WCAG_TARGETS[t]}:1)
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={autoFixContrast}
+                  className="px-2 py-0.5 rounded bg-white/10 hover:bg-white/20"
+                >
+                  Auto-fix
+                </button>
+              </div>
+              {contrastMeasured && (
+                <table className="mt-1 w-full max-w-xs">
+                  <thead>
+                    <tr className="opacity-60">
+                      <th className="text-left font-normal pr-2">Element</th>
+                      <th className="text-right font-normal px-1">min</th>
+                      <th className="text-right font-normal px-1">p10</th>
+                      <th className="text-right font-normal pl-1">med</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {contrastElements!.map((e) => (
+                      <tr key={e.key}>
+                        <td
+                          className="pr-2 truncate max-w-[10rem]"
+                          title={e.label}
+                        >
+                          {e.label}
+                        </td>
+                        <td
+                          className={`text-right font-mono px-1 ${e.passAA ? "text-green-400" : "text-red-400"}`}
+                        >
+                          {e.min.toFixed(2)}
+                        </td>
+                        <td className="text-right font-mono px-1">
+                          {e.p10.toFixed(2)}
+                        </td>
+                        <td className="text-right font-mono pl-1">
+                          {e.median.toFixed(2)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
           )}
+        </div>
+      )}
 
-          <div className="relative z-10 h-full overflow-y-auto">
-            <section className="max-w-7xl mx-auto px-6 py-12">
-              <h1 className="text-4xl md:text-6xl font-bold tracking-tight">
-                Museum of Artificial Intelligence
-              </h1>
-              <p className="mt-4 text-lg md:text-xl max-w-2xl text-white/80">
-                Exhibition platform for the history and future of computation.
-                Prototype layout to evaluate background imagery, readability,
-                and motion.
-              </p>
-              <div className="mt-6 flex gap-3">
-                <button className="px-5 py-2.5 rounded-full bg-white text-black hover:bg-white/90">
-                  Buy Tickets
+      {historyOpen && (
+        <div className="fixed right-4 bottom-4 z-[55] w-64 rounded-lg border border-white/15 bg-black/80 backdrop-blur px-3 py-2 text-xs space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="font-semibold opacity-80">History</span>
+            <div className="flex gap-1">
+              <button
+                onClick={() => undo()}
+                disabled={!undoHistory.past.length}
+                className="px-2 py-0.5 rounded bg-white/10 hover:bg-white/20 disabled:opacity-40"
+                title="Undo (Ctrl+Z)"
+              >
+                Undo
+              </button>
+              <button
+                onClick={() => redo()}
+                disabled={!undoHistory.future.length}
+                className="px-2 py-0.5 rounded bg-white/10 hover:bg-white/20 disabled:opacity-40"
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                Redo
+              </button>
+              <button
+                onClick={() => setHistoryOpen(false)}
+                className="px-1.5 opacity-70 hover:opacity-100"
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+          <ul className="max-h-64 overflow-y-auto space-y-0.5">
+            {undoHistory.future.map((e, i) => (
+              <li key={`f${i}`}>
+                <button
+                  onClick={() => redo(undoHistory.future.length - i)}
+                  className="w-full text-left px-1.5 py-0.5 rounded opacity-40 hover:opacity-70 hover:bg-white/10 truncate"
+                >
+                  {e.label}
+                </button>
+              </li>
+            ))}
+            <li className="px-1.5 py-0.5 rounded bg-white/15">Current</li>
+            {undoHistory.past
+              .map((e, i) => (
+                <li key={`p${i}`}>
+                  <button
+                    onClick={() => undo(undoHistory.past.length - i)}
+                    className="w-full text-left px-1.5 py-0.5 rounded hover:bg-white/10 truncate"
+                  >
+                    {e.label}
+                  </button>
+                </li>
+              ))
+              .reverse()}
+          </ul>
+          {!undoHistory.past.length && !undoHistory.future.length && (
+            <div className="opacity-60">No changes yet.</div>
+          )}
+        </div>
+      )}
+      {codeOpen && cur && (
+        <div
+          className="fixed inset-0 z-[60] bg-black/85 flex items-center justify-center p-4"
+          onClick={() => setCodeOpen(false)}
+        >
+          <div
+            className="max-w-4xl w-full bg-neutral-900 p-6 rounded-lg border border-white/10 space-y-3"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-white">
+                Export code · {cur.name}
+              </h2>
+              <button
+                onClick={() => setCodeOpen(false)}
+                className="px-1.5 opacity-70 hover:opacity-100"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="flex flex-wrap items-center gap-1">
+              {CODE_TARGETS.map((t) => (
+                <button
+                  key={t.key}
+                  onClick={() => setCodeTarget(t.key)}
+                  className={`px-3 py-1 rounded-md text-sm ${codeTarget === t.key ? "bg-white/30" : "bg-white/10 hover:bg-white/20"}`}
+                >
+                  {t.label}
                 </button>
-                <button className="px-5 py-2.5 rounded-full bg-white/10 hover:bg-white/20">
-                  Plan Your Visit
+              ))}
+              <label className="ml-auto flex items-center gap-2 text-xs">
+                Asset path
+                <input
+                  type="text"
+                  value={assetPath}
+                  onChange={(e) => setAssetPath(e.target.value)}
+                  className="w-40 bg-neutral-800 border border-neutral-600 rounded px-2 py-1 font-mono outline-none"
+                />
+              </label>
+            </div>
+            <div className="flex flex-col md:flex-row gap-3">
+              <div className="flex-1 min-w-0 space-y-2">
+                <pre className="max-h-80 overflow-auto rounded bg-black/60 p-3 text-xs font-mono whitespace-pre">
+                  {codeText}
+                </pre>
+                <button
+                  onClick={() => {
+                    navigator.clipboard?.writeText(codeText);
+                    setToast("Code copied");
+                    setTimeout(() => setToast(null), 1200);
+                  }}
+                  className="px-3 py-1.5 rounded-md bg-white/20 hover:bg-white/30 text-sm"
+                >
+                  Copy
                 </button>
               </div>
-            </section>
-
-            <section className="@container max-w-7xl mx-auto px-6 grid grid-cols-1 @md:grid-cols-2 @lg:grid-cols-3 gap-6">
-              {generatedCards.map((card) => (
-                <article
-                  key={card.id}
-                  className="rounded-2xl border border-white/10 p-5"
-                  style={cardPanelStyle}
+              <div className="shrink-0 space-y-1">
+                <div
+                  className="overflow-hidden rounded border border-white/10"
+                  style={{
+                    width: 288,
+                    height: (288 * codePreviewSize.h) / codePreviewSize.w,
+                  }}
                 >
-                  <h3 className={`text-xl font-semibold ${cardHeadingClass}`}>
-                    {card.title}
-                  </h3>
-                  <p className={`mt-2 text-sm ${cardTextClass}`}>
-                    {card.content}
-                  </p>
-                  <button
-                    className={`mt-4 text-sm px-4 py-2 rounded-md ${cardButtonClass}`}
-                  >
-                    Open
-                  </button>
-                </article>
-              ))}
-            </section>
-
-            <section className="max-w-7xl mx-auto px-6 py-12">
-              <div
-                className="rounded-2xl p-6 border border-white/10"
-                style={cardPanelStyle}
-              >
-                <h2 className={`text-2xl font-semibold ${cardHeadingClass}`}>
-                  Sample Text Block
-                </h2>
-                <p className={`mt-3 leading-7 ${cardTextClass}`}>
-                  This is a block of paragraph text used to check long-form
-                  readability against your background choice. Adjust overlay to
-                  meet WCAG contrast goals. Headlines, links, and buttons are
-                  represented above.
-                </p>
+                  <iframe
+                    title="Code preview"
+                    srcDoc={codePreview}
+                    sandbox="allow-same-origin"
+                    className="origin-top-left border-0"
+                    style={{
+                      width: codePreviewSize.w,
+                      height: codePreviewSize.h,
+                      transform: `scale(${288 / codePreviewSize.w})`,
+                    }}
+                  />
+                </div>
+                <div className="w-72 text-[11px] opacity-60">
+                  Preview at {codePreviewSize.w}×{codePreviewSize.h} with the
+                  real image
+                  {codeTarget === "tailwind"
+                    ? ", rendered from the equivalent CSS"
+                    : ""}
+                  .
+                </div>
               </div>
-            </section>
-          </div>
-        </div>
-      </main>
-
-      {/* Global Overlays */}
-      {helpOpen && (
-        <div
-          className="fixed inset-0 z-[60] bg-black/85 flex items-center justify-center p-4"
-          onClick={() => setHelpOpen(false)}
-        >
-          <div className="max-w-3xl w-full bg-neutral-900 p-6 rounded-lg border border-white/10">
-            <h2 className="text-2xl font-semibold text-white">Shortcuts</h2>
-            <ul className="mt-3 grid grid-cols-2 gap-x-4 gap-y-1 text-white/90 text-sm">
-              <li>
-                <span className="font-mono inline-block w-12">←/→</span> Select
-                background
-              </li>
-              <li>
-                <span className="font-mono inline-block w-12">1–9</span> Pick
-                thumbnail
-              </li>
-              <li>
-                <span className="font-mono inline-block w-12">F</span> Favorite
-                current
-              </li>
-              <li>
-                <span className="font-mono inline-block w-12">C</span> Toggle
-                A/B compare
-              </li>
-              <li>
-                <span className="font-mono inline-block w-12">Y</span> Copy CSS
-              </li>
-              <li>
-                <span className="font-mono inline-block w-12">J</span> Export
-                JSON
-              </li>
-              <li>
-                <span className="font-mono inline-block w-12">P</span> Export
-                PNG
-              </li>
-              <li>
-                <span className="font-mono inline-block w-12">M</span> Toggle
-                contrast meter
-              </li>
-              <li>
-                <span className="font-mono inline-block w-12">S</span> Save
-                state
-              </li>
-              <li>
-                <span className="font-mono inline-block w-12">?</span> Toggle
-                this help
-              </li>
-            </ul>
-            <p className="mt-4 text-xs opacity-70">Click anywhere to close.</p>
+            </div>
           </div>
         </div>
       )}
-
-      {meterOpen && (
-        <div className="fixed right-4 top-4 z-[55] rounded-lg border border-white/15 bg-black/80 backdrop-blur px-3 py-2 text-xs space-y-1">
-          <div className="font-semibold opacity-80">Contrast Checks</div>
-          <div>
-            Page text (white):{" "}
-            <span
-              className={`font-mono ${contrastPage.passAA ? "text-green-400" : "text-red-400"}`}
-            >
-              {contrastPage.ratio.toFixed(2)}:1
+      {reportOpen && (
+        <div className="fixed right-4 top-4 z-[55] w-96 max-h-[80vh] overflow-y-auto rounded-lg border border-white/15 bg-black/85 backdrop-blur px-3 py-2 text-xs space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="font-semibold opacity-80">
+              Image report · {reportItems.length} images
             </span>
-          </div>
-          <div>
-            Card text ({cardTextColor}):{" "}
-            <span
-              className={`font-mono ${contrastCard.passAA ? "text-green-400" : "text-red-400"}`}
+            <button
+              onClick={() => setReportOpen(false)}
+              className="px-1.5 opacity-70 hover:opacity-100"
             >
-              {contrastCard.ratio.toFixed(2)}:1
-            </span>
+              ✕
+            </button>
+          </div>
+          {!reportItems.length && (
+            <div className="opacity-60">No images in the library.</div>
+          )}
+          {reportItems.map((it) => {
+            const meta = imageMeta[imageMetaKey(it)];
+            const report = meta && imageFitReport(meta, reportDevices);
+            return (
+              <div
+                key={it.id}
+                className="space-y-1 border-t border-white/10 pt-2"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium truncate">{it.name}</span>
+                  {report && (
+                    <span
+                      className={`shrink-0 rounded px-1.5 ${report.verdict === "ok" ? "bg-green-500/30" : "bg-amber-500/30"}`}
+                    >
+                      {report.verdict === "too small"
+                        ? `too small · ×${report.largest.toFixed(1)} upscale`
+                        : report.verdict === "oversized"
+                          ? `oversized · ${(1 / report.largest).toFixed(1)}× needed`
+                          : "ok"}
+                    </span>
+                  )}
+                </div>
+                {meta === undefined ? (
+                  <div className="opacity-60">Reading…</div>
+                ) : !meta || !report ? (
+                  <div className="opacity-60">Unreadable</div>
+                ) : (
+                  <>
+                    <div className="font-mono opacity-80">
+                      {meta.width}×{meta.height} · {meta.mime} ·{" "}
+                      {formatBytes(meta.bytes)} · decoded{" "}
+                      {formatBytes(report.decoded)}
+                    </div>
+                    <table className="w-full font-mono">
+                      <tbody>
+                        {report.perDevice.map((d) => (
+                          <tr
+                            key={d.key}
+                            className={d.scale > 1 ? "text-amber-300" : ""}
+                          >
+                            <td className="pr-2 truncate">{d.label}</td>
+                            <td className="pr-2 opacity-70">
+                              {d.need.w}×{d.need.h}
+                            </td>
+                            <td className="text-right">
+                              ~{formatBytes(d.bytes)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </>
+                )}
+              </div>
+            );
+          })}
+          {imageVariantGroups(reportItems).map((group) => {
+            const sized = group
+              .map((it) => ({ it, meta: imageMeta[imageMetaKey(it)] }))
+              .filter((x) => x.meta)
+              .sort((a, b) => b.meta!.bytes - a.meta!.bytes);
+            if (sized.length < 2) return null;
+            const [largest, ...rest] = sized;
+            return (
+              <div
+                key={group[0].id}
+                className="border-t border-white/10 pt-2 space-y-0.5"
+              >
+                <div className="font-medium">Variants of {largest.it.name}</div>
+                {rest.map(({ it, meta }) => (
+                  <div key={it.id} className="font-mono opacity-80">
+                    {it.name}:{" "}
+                    {Math.round((meta!.bytes / largest.meta!.bytes) * 100)}% of
+                    the size (−{formatBytes(largest.meta!.bytes - meta!.bytes)})
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+          <div className="opacity-60">
+            Device sizes are CSS size × DPR in the device's own orientation.
+            Byte estimates assume a copy resized to each device.
           </div>
         </div>
       )}
-
       {toast && (
         <div className="fixed left-1/2 -translate-x-1/2 top-4 z-[70] px-3 py-1.5 rounded bg-white/20 border border-white/30 text-sm backdrop-blur">
           {toast}
@@ -1448,17 +7842,27 @@ function Thumb({
   onClick,
   onRemove,
   onFav,
+  slotA,
+  slotB,
+  onSetSlot,
+  picked,
+  onPick,
 }: {
   item: BGItem;
   active: boolean;
   onClick: () => void;
   onRemove?: () => void;
   onFav: () => void;
+  slotA?: boolean;
+  slotB?: boolean;
+  onSetSlot?: (slot: "A" | "B") => void;
+  picked?: boolean;
+  onPick?: () => void;
 }) {
   const isFav = item.favorite ?? false;
   return (
     <div
-      className={`relative shrink-0 w-full aspect-video rounded-md overflow-hidden border-2 ${active ? "border-white" : "border-white/20 hover:border-white/50"}`}
+      className={`group relative shrink-0 w-full aspect-video rounded-md overflow-hidden border-2 ${active ? "border-white" : "border-white/20 hover:border-white/50"}`}
     >
       <button onClick={onClick} className="absolute inset-0">
         {item.type === "image" ? (
@@ -1475,6 +7879,33 @@ function Thumb({
           />
         )}
       </button>
+      {(onSetSlot || onPick) && (
+        <div className="absolute top-1 left-1 flex gap-1">
+          {onPick && (
+            <button
+              onClick={onPick}
+              title={picked ? "Remove from grid" : "Add to grid"}
+              className={`px-1 py-0.5 rounded-sm text-xs ${picked ? "bg-white text-black" : "bg-black/60 opacity-0 group-hover:opacity-100 focus:opacity-100"}`}
+            >
+              {picked ? "✓" : "+"}
+            </button>
+          )}
+          {onSetSlot &&
+            (["A", "B"] as const).map((slot) => {
+              const on = slot === "A" ? slotA : slotB;
+              return (
+                <button
+                  key={slot}
+                  onClick={() => onSetSlot(slot)}
+                  title={on ? `Clear ${slot}` : `Set as ${slot}`}
+                  className={`px-1 py-0.5 rounded-sm text-xs font-mono ${on ? "bg-white text-black" : "bg-black/60 opacity-0 group-hover:opacity-100 focus:opacity-100"}`}
+                >
+                  {slot}
+                </button>
+              );
+            })}
+        </div>
+      )}
       <div className="absolute top-1 right-1 flex gap-1">
         <button
           onClick={onFav}
@@ -1500,6 +7931,239 @@ function Thumb({
   );
 }
 
+// ================================================================================================
+// GRADIENT BUILDER COMPONENT
+// ================================================================================================
+
+function GradientBuilder({
+  model,
+  onChange,
+}: {
+  model: GradientModel;
+  onChange: (m: GradientModel) => void;
+}) {
+  const [selected, setSelected] = useState(model.stops[0]?.id ?? "");
+  const barRef = useRef<HTMLDivElement>(null);
+  const dialRef = useRef<HTMLDivElement>(null);
+  const stop = model.stops.find((s) => s.id === selected) ?? model.stops[0];
+
+  const update = (patch: Partial<GradientModel>) =>
+    onChange({ ...model, ...patch });
+  const updateStop = (id: string, patch: Partial<BuilderStop>) =>
+    update({
+      stops: model.stops.map((s) => (s.id === id ? { ...s, ...patch } : s)),
+    });
+
+  const posFromEvent = (e: React.PointerEvent) => {
+    const r = barRef.current!.getBoundingClientRect();
+    const p = ((e.clientX - r.left) / r.width) * 100;
+    return Math.round(Math.max(0, Math.min(100, p)) * 10) / 10;
+  };
+  const angleFromEvent = (e: React.PointerEvent) => {
+    const r = dialRef.current!.getBoundingClientRect();
+    const dx = e.clientX - (r.left + r.width / 2);
+    const dy = e.clientY - (r.top + r.height / 2);
+    return Math.round(((Math.atan2(dx, -dy) * 180) / Math.PI + 360) % 360);
+  };
+
+  const barCss = gradientModelToCss({
+    ...model,
+    kind: "linear",
+    repeating: false,
+    angle: 90,
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1">
+        {(["linear", "radial", "conic"] as const).map((k) => (
+          <button
+            key={k}
+            onClick={() => update({ kind: k })}
+            className={`flex-1 px-2 py-1 rounded-md text-xs ${model.kind === k ? "bg-white/30" : "bg-white/10 hover:bg-white/20"}`}
+          >
+            {k}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3">
+        {model.kind !== "radial" && (
+          <div
+            ref={dialRef}
+            title="Drag to set the angle"
+            className="relative w-14 h-14 shrink-0 rounded-full border border-white/30 bg-neutral-800 cursor-pointer touch-none"
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              update({ angle: angleFromEvent(e) });
+            }}
+            onPointerMove={(e) => {
+              if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+                update({ angle: angleFromEvent(e) });
+              }
+            }}
+          >
+            <div
+              className="absolute left-1/2 top-1/2 w-0.5 h-6 -ml-px bg-white origin-top"
+              style={{ transform: `rotate(${model.angle + 180}deg)` }}
+            />
+          </div>
+        )}
+        <div className="flex-1 space-y-1 text-xs">
+          {model.kind !== "radial" && (
+            <label className="flex items-center gap-2">
+              <span className="opacity-80 w-10">
+                {model.kind === "conic" ? "From" : "Angle"}
+              </span>
+              <input
+                type="number"
+                min={0}
+                max={360}
+                value={model.angle}
+                onChange={(e) =>
+                  update({ angle: (parseFloat(e.target.value) || 0) % 360 })
+                }
+                className="w-16 bg-neutral-800 border border-neutral-600 rounded px-1 outline-none"
+              />
+              °
+            </label>
+          )}
+          {model.kind === "radial" && (
+            <select
+              value={model.shape}
+              onChange={(e) =>
+                update({ shape: e.target.value as "circle" | "ellipse" })
+              }
+              className="w-full bg-neutral-800 border border-neutral-600 rounded px-1 outline-none"
+            >
+              <option value="ellipse">ellipse</option>
+              <option value="circle">circle</option>
+            </select>
+          )}
+          {model.kind !== "linear" &&
+            (["atX", "atY"] as const).map((k) => (
+              <label key={k} className="flex items-center gap-2">
+                <span className="opacity-80 w-10">
+                  {k === "atX" ? "X" : "Y"}
+                </span>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={model[k]}
+                  onChange={(e) => update({ [k]: Number(e.target.value) })}
+                  className="flex-1"
+                />
+              </label>
+            ))}
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={model.repeating}
+              onChange={(e) => update({ repeating: e.target.checked })}
+            />
+            Repeating
+          </label>
+        </div>
+      </div>
+
+      {/* Stop bar: drag handles to move, double-click the bar to add. */}
+      <div className="pt-1 pb-3">
+        <div
+          ref={barRef}
+          className="relative h-5 rounded border border-white/20 bg-[repeating-conic-gradient(#555_0_25%,#888_0_50%)] bg-[length:10px_10px]"
+          onDoubleClick={(e) => {
+            const r = barRef.current!.getBoundingClientRect();
+            const pos =
+              Math.round(((e.clientX - r.left) / r.width) * 1000) / 10;
+            const id = uid();
+            update({
+              stops: [
+                ...model.stops,
+                { id, color: stop?.color ?? "#ffffff", alpha: 1, pos },
+              ],
+            });
+            setSelected(id);
+          }}
+        >
+          <div
+            className="absolute inset-0 rounded"
+            style={{ backgroundImage: barCss }}
+          />
+          {model.stops.map((st) => (
+            <div
+              key={st.id}
+              title={`${st.color} ${st.pos}%`}
+              className={`absolute top-full w-3 h-3 -ml-1.5 mt-0.5 rounded-sm border-2 cursor-ew-resize touch-none ${st.id === stop?.id ? "border-white" : "border-white/40"}`}
+              style={{ left: `${st.pos}%`, background: st.color }}
+              onPointerDown={(e) => {
+                e.stopPropagation();
+                e.currentTarget.setPointerCapture(e.pointerId);
+                setSelected(st.id);
+              }}
+              onPointerMove={(e) => {
+                if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+                  updateStop(st.id, { pos: posFromEvent(e) });
+                }
+              }}
+            />
+          ))}
+        </div>
+      </div>
+
+      {stop && (
+        <div className="flex items-center gap-2 text-xs">
+          <input
+            type="color"
+            value={stop.color}
+            onChange={(e) => updateStop(stop.id, { color: e.target.value })}
+            className="w-8 h-6 rounded border border-white/20 bg-transparent cursor-pointer"
+          />
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={stop.alpha}
+            title="Stop opacity"
+            onChange={(e) =>
+              updateStop(stop.id, { alpha: parseFloat(e.target.value) })
+            }
+            className="flex-1"
+          />
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={stop.pos}
+            onChange={(e) =>
+              updateStop(stop.id, {
+                pos: Math.max(
+                  0,
+                  Math.min(100, parseFloat(e.target.value) || 0),
+                ),
+              })
+            }
+            className="w-12 bg-neutral-800 border border-neutral-600 rounded px-1 outline-none"
+          />
+          <button
+            onClick={() => {
+              const rest = model.stops.filter((s) => s.id !== stop.id);
+              update({ stops: rest });
+              setSelected(rest[0]?.id ?? "");
+            }}
+            disabled={model.stops.length <= 2}
+            title="Remove stop"
+            className="px-1.5 rounded bg-white/10 hover:bg-white/20 disabled:opacity-40"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ================================================================================================
 // INLINE TESTS
 // ================================================================================================
@@ -1532,7 +8196,120 @@ function Thumb({
         String(s1.backgroundImage).startsWith("url("),
       "image style should use url()",
     );
-    const f1 = computeFrameStyle("mobile-portrait", false);
+    const legacy = migrateState({
+      device: "mobile-portrait",
+      darkMode: true,
+      overlay: "0.4",
+      bogus: 1,
+      items: [cssItem, { id: "broken", type: "image" }],
+    });
+    console.assert(
+      legacy.state.device === "mobile" &&
+        legacy.state.rotate === false &&
+        legacy.state.cardColor === "#000000" &&
+        legacy.state.version === SCHEMA_VERSION &&
+        legacy.report.from === 1 &&
+        legacy.report.defaulted.includes("overlay") &&
+        legacy.report.dropped.includes("items[1]") &&
+        legacy.report.dropped.includes("bogus"),
+      "v1 state migrates and reports defaulted/dropped fields",
+    );
+    const custom = migrateState({
+      version: 3,
+      device: "kiosk",
+      customDevices: [
+        { key: "kiosk", label: "Kiosk", w: 1080, h: 1920, dpr: 1 },
+        { key: "bad", label: "Bad", w: 10, h: 1920, dpr: 1 },
+      ],
+    });
+    console.assert(
+      custom.state.device === "kiosk" &&
+        custom.state.customDevices.length === 1 &&
+        custom.report.dropped.includes("customDevices[1]") &&
+        computeFrameStyle("kiosk", true, custom.state.customDevices).width ===
+          "1920px" &&
+        findDevice("gone").key === "fluid",
+      "custom device profiles are validated and resolved",
+    );
+    const directed = validateItem({
+      ...cssItem,
+      art: {
+        mobile: { pos: "left center", overlay: 0.6, itemId: "alt" },
+        desktop: { fit: "stretch" },
+      },
+    })!;
+    const altItem: BGItem = { ...cssItem, id: "alt", css: "red" };
+    const onMobile = resolveArt(
+      directed,
+      artTargetFor(390),
+      { fit: "cover", pos: "center center", overlay: 0.2 },
+      [directed, altItem],
+    );
+    const snippet = cssSnippet(directed, "cover", false, "center center", 0.2, [
+      altItem,
+    ]);
+    console.assert(
+      onMobile.item === altItem &&
+        onMobile.pos === "left center" &&
+        onMobile.fit === "cover" &&
+        artTargetFor(1440) === "desktop" &&
+        JSON.stringify(directed.art?.desktop) === "{}" &&
+        snippet.includes(
+          "@media (max-width: 767px) {\n  .selector { background-image: red; background-position: left center; }",
+        ) &&
+        withArtOverride(directed, "mobile", null).art?.mobile === undefined &&
+        withArtOverride(
+          withArtOverride(directed, "mobile", null),
+          "desktop",
+          null,
+        ).art === undefined,
+      "art direction overrides resolve per device class and emit @media rules",
+    );
+    const [orphaned] = pruneArtSources([directed]);
+    const [remapped] = pruneArtSources(
+      [directed, { ...altItem, id: "kept" }],
+      new Map([["alt", "kept"]]),
+    );
+    console.assert(
+      orphaned.art?.mobile?.itemId === undefined &&
+        orphaned.art?.mobile?.pos === "left center" &&
+        remapped.art?.mobile?.itemId === "kept",
+      "swapped sources are dropped or remapped when their background goes",
+    );
+    const phone = findDevice("mobile");
+    const portrait = computeDeviceChrome(phone, false, {
+      system: true,
+      urlBar: true,
+      keyboard: false,
+    })!;
+    const landscape = computeDeviceChrome(phone, true, {
+      system: true,
+      urlBar: false,
+      keyboard: true,
+    })!;
+    const hero = {
+      key: "hero",
+      label: "Hero",
+      kind: "page" as const,
+      rect: { x: 60, y: 60, w: 300, h: 40 },
+    };
+    console.assert(
+      portrait.visible.top === 47 + URL_BAR_HEIGHT &&
+        portrait.parts.map((p) => p.kind).join() === "status,island,home,url" &&
+        landscape.width === 844 &&
+        landscape.safe.left === 47 &&
+        landscape.safe.top === 0 &&
+        landscape.visible.bottom === 195 &&
+        !computeDeviceChrome(findDevice("fluid"), false, {
+          system: true,
+          urlBar: true,
+          keyboard: true,
+        }) &&
+        regionsUnderChrome([hero], portrait).join() === "Hero" &&
+        regionsUnderChrome([hero], landscape).length === 0,
+      "device chrome insets follow rotation and flag covered content",
+    );
+    const f1 = computeFrameStyle(legacy.state.device, false);
     console.assert(
       f1.width === "390px" && f1.height === "844px",
       "mobile frame",
@@ -1561,6 +8338,433 @@ function Thumb({
     console.assert(PRESETS.length >= 4, "at least four gradients provided");
     const c0 = estimateMinContrastFromOverlay(0.0);
     console.assert(Math.abs(c0.ratio - 1.0) < 1e-6, "overlay 0 → ratio ~ 1.0");
+    console.assert(
+      Math.abs(contrastRatio(relativeLuminance(255, 255, 255), 0) - 21) < 1e-6,
+      "white on black → 21:1",
+    );
+    const cover = computeDrawRect(
+      1000,
+      500,
+      400,
+      400,
+      "cover",
+      "center center",
+    );
+    console.assert(
+      cover.dw === 800 && cover.dh === 400 && cover.dx === -200,
+      "cover fills the frame and crops the overflow",
+    );
+    const focused = validateItem({
+      id: "f",
+      type: "image",
+      src: "data:",
+      focus: { x: 25, y: 80 },
+    })!;
+    console.assert(
+      computeDrawRect(1000, 500, 400, 400, "cover", "25% 80%").dx === -100 &&
+        computeDrawRect(1000, 500, 400, 400, "cover", "right top").dx ===
+          -400 &&
+        buildBackgroundStyle(focused, {
+          fit: "cover",
+          repeat: false,
+          pos: "center top",
+          blur: 0,
+        }).backgroundPosition === "25% 80%" &&
+        cssSnippet(focused, "cover", false, "center top", 0).includes(
+          "background-position: 25% 80%;",
+        ) &&
+        !validateItem({ ...focused, focus: { x: 120, y: 0 } })!.focus,
+      "focal points position previews, exports and CSS as percentages",
+    );
+    const heroImg: BGItem = {
+      ...focused,
+      name: "Hero Shot.png",
+      art: { mobile: { itemId: "m", overlay: 0.6 } },
+    };
+    const mobileImg: BGItem = { ...focused, id: "m", name: "hero-m.png" };
+    const codeOpts: CodeExportOptions = {
+      item: heroImg,
+      fit: "cover",
+      repeat: false,
+      pos: "center center",
+      overlay: 0.3,
+      items: [heroImg, mobileImg],
+      derivatives: (it) =>
+        it.id === heroImg.id
+          ? [
+              { mime: "image/avif", ext: "avif", widths: [640, 1280] },
+              { mime: "image/webp", ext: "webp", widths: [640, 1280] },
+              { mime: "image/jpeg", ext: "jpg", widths: [640, 1280] },
+            ]
+          : [],
+      url: (it, v) => "/img/" + assetFileName(it, v),
+    };
+    const code = (t: CodeTarget) => buildCodeExport(t, codeOpts);
+    console.assert(
+      code("css").includes("background-image: url(/img/Hero%20Shot.png);") &&
+        code("css").includes(
+          "@media (max-width: 767px) {\n  .selector { background-image: url(/img/hero-m.png); }\n  .selector::before { background: rgba(0,0,0,0.60); }",
+        ) &&
+        code("image-set").includes(
+          'image-set(url(/img/Hero%20Shot-1280w.avif) type("image/avif"), url(/img/Hero%20Shot-1280w.webp) type("image/webp"), url(/img/Hero%20Shot-1280w.jpg) type("image/jpeg"))',
+        ) &&
+        code("image-set").includes(
+          "background-image: url(/img/Hero%20Shot-1280w.jpg);",
+        ) &&
+        code("picture").includes(
+          '<source type="image/webp" srcset="/img/Hero%20Shot-640w.webp 640w, /img/Hero%20Shot-1280w.webp 1280w"',
+        ) &&
+        code("picture").includes(
+          '<source media="(max-width: 767px)" srcset="/img/hero-m.png">',
+        ) &&
+        code("picture").includes(
+          '<img src="/img/Hero%20Shot-1280w.jpg" srcset="/img/Hero%20Shot-640w.jpg 640w',
+        ) &&
+        buildCodeExport("image-set", {
+          ...codeOpts,
+          derivatives: () => [],
+        }).includes("background-image: url(/img/Hero%20Shot.png);") &&
+        code("tailwind").includes("max-[767px]:bg-hero-shot-mobile") &&
+        code("tailwind").includes("bg-[position:25%_80%]") &&
+        code("vars").includes("--bg-position: 25% 80%;") &&
+        buildCodeExport("picture", { ...codeOpts, item: cssItem }).startsWith(
+          "<!--",
+        ),
+      "code export targets reference assets by path and keep art direction",
+    );
+    const scored = scoreContrastSamples(
+      {
+        key: "k",
+        label: "k",
+        kind: "page",
+        rect: { x: 0, y: 0, w: 1, h: 1 },
+        samples: Uint8ClampedArray.from([255, 255, 255, 0, 0, 0]),
+      },
+      { overlay: 0, text: "white" },
+    );
+    console.assert(
+      Math.abs(scored.min - 1) < 1e-6 && !scored.passAA,
+      "worst-case ratio comes from the brightest sample",
+    );
+    const layered = parseCssBackground(
+      "radial-gradient(circle at 10% 0%, rgba(255, 0, 0, 0.5) 0%, transparent 40%), linear-gradient(to right, red, blue 80%)",
+    );
+    console.assert(
+      layered.length === 2 &&
+        layered[0].kind === "radial" &&
+        layered[0].stops[0].color === "rgba(255, 0, 0, 0.5)" &&
+        layered[1].kind === "linear" &&
+        layered[1].angle === 90,
+      "layered gradients parse into topmost-first layers",
+    );
+    const preset = parseCssBackground(PRESETS[0].css!)[0];
+    console.assert(
+      preset.kind === "linear" && preset.angle === 135,
+      "preset angle is honoured",
+    );
+    const filled = resolveGradientStops(
+      [{ color: "red" }, { color: "lime" }, { color: "blue" }],
+      100,
+    );
+    console.assert(
+      filled.map((x) => x.offset).join() === "0,0.5,1",
+      "missing stop positions are spread evenly",
+    );
+    console.assert(
+      extractColors("linear-gradient(rgba(0,0,0,0.5), rgb(1,2,3))").length ===
+        2,
+      "extractColors matches rgb()/rgba()",
+    );
+    console.assert(
+      isTransparentColor("rgba(0, 0, 0, 0)") &&
+        !isTransparentColor("rgba(0, 0, 0, 0.08)") &&
+        !isTransparentColor("rgb(255, 255, 255)"),
+      "transparent panel backgrounds are skipped in export",
+    );
+    console.assert(
+      normalizeCssBackgroundInput(
+        "background-image: linear-gradient(red, blue);",
+      ) === "linear-gradient(red, blue)",
+      "pasted declarations are reduced to their value",
+    );
+    if (
+      typeof CSS !== "undefined" &&
+      CSS.supports("background-image", "url(a.png)")
+    ) {
+      const urlOnly = validateCssBackground("url(a.png)");
+      console.assert(
+        urlOnly.ok && !!urlOnly.warning,
+        "url()-only values are accepted with an export warning",
+      );
+    }
+    const midnight = gradientModelFromCss(PRESETS[2].css!);
+    console.assert(
+      !!midnight &&
+        midnight.angle === 135 &&
+        midnight.stops.length === 2 &&
+        gradientModelToCss(midnight) ===
+          "linear-gradient(135deg, #1d2b64 0%, #f8cdda 100%)",
+      "presets round-trip through the gradient builder",
+    );
+    console.assert(
+      !!singleGradientModel(PRESETS[2].css!) &&
+        !singleGradientModel("linear-gradient(red, blue), url(a.png)") &&
+        !singleGradientModel("red"),
+      "the builder only opens on single gradients",
+    );
+    {
+      const built: GradientModel = {
+        ...DEFAULT_GRADIENT_MODEL,
+        stops: [
+          { id: "b", color: "#ffffff", alpha: 1, pos: 100 },
+          { id: "a", color: "#000000", alpha: 1, pos: 0 },
+        ],
+      };
+      const reread = gradientModelFromCss(
+        "linear-gradient(90deg, #000000 0%, #ff0000 100%)",
+      )!;
+      const kept = keepStopIds(built, reread);
+      const added = gradientModelFromCss(
+        "linear-gradient(90deg, #000 0%, #888 50%, #f00 100%)",
+      )!;
+      console.assert(
+        kept.stops[0].id === "a" &&
+          kept.stops[1].id === "b" &&
+          kept.stops[1].color === "#ff0000" &&
+          keepStopIds(built, added).stops[1].id === "s1",
+        "re-read stops keep their builder ids while the count holds",
+      );
+    }
+    console.assert(
+      cssColorToHexAlpha("rgba(255, 0, 0, 0.5)").color === "#ff0000" &&
+        cssColorToHexAlpha("#0f08").alpha === 0x88 / 255,
+      "stop colours split into hex and alpha",
+    );
+    const stored = toStoredItems([
+      { ...imgItem, blobId: "b1", src: "blob:x" },
+      cssItem,
+    ]);
+    console.assert(
+      stored[0].src === undefined &&
+        stored[0].blobId === "b1" &&
+        stored[1].css === cssItem.css,
+      "blob-backed items are stored by reference only",
+    );
+    console.assert(formatBytes(1536) === "1.5 KB", "formatBytes");
+    const photo = { width: 2880, height: 1800, bytes: 1000, mime: "image/png" };
+    const photoFit = imageFitReport(photo, DEVICES);
+    console.assert(
+      photoFit.perDevice.length === 3 &&
+        photoFit.verdict === "too small" &&
+        photoFit.perDevice[2].scale === 1 &&
+        photoFit.perDevice[2].bytes === 1000 &&
+        imageFitReport({ ...photo, width: 8000, height: 6000 }, [DEVICES[3]])
+          .verdict === "oversized" &&
+        imageVariantGroups([
+          { ...cssItem, id: "a", type: "image", name: "hero.png" },
+          { ...cssItem, id: "b", type: "image", name: "Hero.avif" },
+          { ...cssItem, id: "c", type: "image", name: "other.png" },
+        ])
+          .map((g) => g.map((x) => x.id).join())
+          .join("|") === "a,b",
+      "image report flags upscaling and pairs format variants",
+    );
+    console.assert(
+      crc32(new TextEncoder().encode("123456789")) === 0xcbf43926 &&
+        parseWidths("1920, 640 640 x 4000", 2000).join() === "640,1920" &&
+        parseWidths("4000", 1200).length === 0,
+      "crc32 check value and derivative widths",
+    );
+    buildZip([{ name: "a.txt", data: new TextEncoder().encode("hi") }])
+      .arrayBuffer()
+      .then((buf) => {
+        const view = new DataView(buf);
+        console.assert(
+          buf.byteLength === 30 + 5 + 2 + 46 + 5 + 22 &&
+            view.getUint32(0, true) === 0x04034b50 &&
+            view.getUint32(37, true) === 0x02014b50 &&
+            view.getUint32(buf.byteLength - 22, true) === 0x06054b50 &&
+            view.getUint32(buf.byteLength - 6, true) === 37,
+          "zip has a local entry, central directory and end record",
+        );
+      });
+    buildPdf([
+      { jpeg: new Uint8Array([0xff, 0xd8, 0xff, 0xd9]), width: 4, height: 2 },
+    ])
+      .text()
+      .then((pdf) => {
+        const xref = Number(/startxref\n(\d+)/.exec(pdf)?.[1]);
+        const obj3 = Number(/\n0 6\n(?:.*\n){3}(\d{10})/.exec(pdf)?.[1]);
+        console.assert(
+          pdf.startsWith("%PDF-1.4") &&
+            pdf.endsWith("%%EOF\n") &&
+            new TextEncoder().encode(pdf).length > xref &&
+            /\/MediaBox \[0 0 3 1\.5\]/.test(pdf) &&
+            obj3 > 0,
+          "contact sheet PDF has a page per sheet and an xref table",
+        );
+      });
+    const wide = visibleSourceRect(
+      2000,
+      1000,
+      500,
+      1000,
+      "cover",
+      "center center",
+    );
+    console.assert(
+      Math.abs(wide.w - 0.25) < 1e-9 &&
+        Math.abs(wide.x - 0.375) < 1e-9 &&
+        wide.h === 1,
+      "cover crops the sides of a wide image in a tall frame",
+    );
+    const sweepBase = {
+      width: 600,
+      height: 900,
+      cols: 1,
+      page: 5,
+      cards: 6,
+      crop: wide,
+    };
+    console.assert(
+      describeSweepChanges(sweepBase, {
+        ...sweepBase,
+        width: 700,
+        cols: 2,
+        page: 4,
+      }).join("|") === "cards 1 → 2 columns|page contrast 5.0 → 4.0" &&
+        describeSweepChanges(sweepBase, { ...sweepBase, width: 680 }).length ===
+          0,
+      "sweep reports column switches and contrast crossing AA",
+    );
+    console.assert(
+      sweepWidths({ from: 320, to: 500, step: 80 }).join() ===
+        "320,400,480,500" &&
+        sweepWidths({ from: 0, to: 216, step: 0 }).join() === "200,208,216" &&
+        sweepWidths({ from: 900, to: 600, step: 80 }).length === 0 &&
+        sweepWidths({ from: 320, to: 1920, step: 8 }).length > SWEEP_MAX_FRAMES,
+      "sweep widths respect the input minimums and stop past the frame cap",
+    );
+    const four = multiUpLayout(4, 1000, 600, 1440, 900);
+    console.assert(
+      four.cols === 2 &&
+        four.rows === 2 &&
+        multiUpLayout(3, 1200, 300, 390, 844).cols === 3,
+      "multi-up picks the column count with the largest tiles",
+    );
+    const base: ExportState = {
+      ...DEFAULT_STATE,
+      items: [cssItem, imgItem],
+      generatedCards: [],
+      looks: [],
+      customDevices: [],
+    };
+    console.assert(
+      describeStateChange(base, { ...base, overlay: 0.4 })?.label ===
+        "Overlay 40%" &&
+        describeStateChange(base, { ...base, items: [cssItem] })?.label ===
+          `Remove ${imgItem.name}` &&
+        describeStateChange(base, {
+          ...base,
+          items: [cssItem, { ...imgItem, src: "blob:y" }],
+        }) === null,
+      "history labels changes and ignores rehydrated URLs",
+    );
+    const withLooks = migrateState({
+      version: 2,
+      items: [cssItem],
+      looks: [
+        { ...DEFAULT_STATE, id: "l1", name: "Dusk", itemId: cssItem.id },
+        { id: "l2", itemId: cssItem.id, overlay: 5 },
+      ],
+    });
+    console.assert(
+      migrateState({ version: 2 }).state.looks.length === 0 &&
+        withLooks.state.looks.length === 1 &&
+        withLooks.state.looks[0].overlay === DEFAULT_STATE.overlay &&
+        withLooks.report.dropped.includes("looks[1]"),
+      "looks are validated and default to an empty library",
+    );
+    const fix = solveContrastSettings({
+      target: "AA",
+      samples: null,
+      cardColor: "#000000",
+    });
+    console.assert(
+      fix.pagePass &&
+        estimateMinContrastFromOverlay(fix.overlay).ratio >= 4.5 &&
+        estimateMinContrastFromOverlay(fix.overlay - 0.01).ratio < 4.5,
+      "auto-fix picks the smallest passing overlay",
+    );
+    console.assert(
+      heatmapBand(4.5).min === 4.5 && heatmapBand(2).min === 0,
+      "heatmap bands follow WCAG thresholds",
+    );
+    const linked = applyPermalink(
+      {
+        ...DEFAULT_STATE,
+        items: [imgItem],
+        generatedCards: [],
+        looks: [],
+        customDevices: [],
+      },
+      "#" +
+        encodePermalink({
+          ...DEFAULT_STATE,
+          items: [cssItem, imgItem],
+          index: 0,
+          overlay: 0.5,
+          rotate: true,
+          generatedCards: generateRandomCards(2),
+          looks: [],
+          customDevices: [],
+        }).hash,
+    );
+    console.assert(
+      !!linked &&
+        linked.state.items[linked.state.index].css === cssItem.css &&
+        linked.state.overlay === 0.5 &&
+        linked.state.rotate === true &&
+        linked.state.generatedCards.length === 2 &&
+        linked.state.cardCount === DEFAULT_STATE.cardCount &&
+        linked.notice === "",
+      "permalinks restore the background and settings",
+    );
+    const imgLink = encodePermalink({
+      ...DEFAULT_STATE,
+      items: [imgItem],
+      generatedCards: [],
+      looks: [],
+      customDevices: [],
+    });
+    console.assert(
+      imgLink.placeholder &&
+        applyPermalink(
+          {
+            ...DEFAULT_STATE,
+            items: [],
+            generatedCards: [],
+            looks: [],
+            customDevices: [],
+          },
+          imgLink.hash,
+        )!.state.items[0].css === LINK_PLACEHOLDER_CSS,
+      "uploaded images become a placeholder in links",
+    );
+    Promise.all([
+      itemContentKey({
+        ...cssItem,
+        id: "a",
+        css: "linear-gradient(red,  blue)",
+      }),
+      itemContentKey({
+        ...cssItem,
+        id: "b",
+        css: "Linear-Gradient(red, blue) ",
+      }),
+    ]).then(([a, b]) =>
+      console.assert(a === b, "imports de-duplicate equivalent CSS"),
+    );
   } catch (err) {
     // Silently ignore test failures in production
   }